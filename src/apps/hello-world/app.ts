@@ -1,16 +1,8 @@
-import { run, Route, createResponse } from "../../lib/server.ts";
+import { run, get } from "../../lib/server.ts";
 
-const routes: Route[] = [
-  {
-    path: "/",
-    method: "GET",
-    handler: () => createResponse(new Response("Hello, World!", { status: 200 })),
-  },
-  {
-    path: "/about",
-    method: "GET",
-    handler: () => createResponse(new Response("About page", { status: 200 })),
-  },
+const routes = [
+  get("/", () => new Response("Hello, World!", { status: 200 })),
+  get("/about", () => new Response("About page", { status: 200 })),
 ];
 
 run(routes);
\ No newline at end of file
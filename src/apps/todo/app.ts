@@ -1,5 +1,3 @@
-// lib/server.ts
-// app.ts
 import {
   Route,
   Middleware,
@@ -8,9 +6,19 @@ import {
   post,
   patch,
   del,
+  group,
   json,
-  addMiddleware
-} from "./lib/server.ts";
+  addMiddleware,
+  withRateLimit,
+  withDocs,
+  NotFoundError,
+  UnauthorizedError,
+  byUser,
+  idempotency,
+  schema,
+  requestLogger,
+  type OpenApiOptions
+} from "../../lib/server.ts";
 
 // Types
 type Todo = {
@@ -20,52 +28,128 @@ type Todo = {
   createdAt: string;
 };
 
+type User = {
+  token: string;
+};
+
+// Typed request state set by the auth middleware
+declare module "../../lib/context.ts" {
+  interface RequestState {
+    user?: User;
+  }
+}
+
 // Simple in-memory store
 const todos = new Map<string, Todo>();
 
-// Middleware
-const requestLogger: Middleware = async (req, next) => {
-  const start = Date.now();
-  const response = await next(req);
-  console.log(`${req.method} ${req.url} - ${response.status} ${Date.now() - start}ms`);
-  return response;
+// Thrown errors become problem+json responses
+const findTodo = (id: string): Todo => {
+  const todo = todos.get(id);
+  if (!todo) {
+    throw new NotFoundError(`Todo ${id} not found`);
+  }
+  return todo;
 };
 
-const auth: Middleware = async (req, next) => {
+// Middleware
+const auth: Middleware = (req, next, context) => {
   const token = req.headers.get("Authorization");
   if (!token) {
-    return json({ error: "Unauthorized" }, 401);
+    throw new UnauthorizedError("Missing Authorization header");
   }
+  context.state.user = { token };
   return next(req);
 };
 
+// Input schemas, validated before the handlers run
+const title = schema.string({ minLength: 1, maxLength: 200 });
+
+const listTodosInput = {
+  query: schema.object({
+    completed: schema.optional(schema.boolean()),
+    search: schema.optional(schema.string())
+  })
+};
+
+const createTodoInput = {
+  body: schema.object({ title })
+};
+
+const updateTodoInput = {
+  body: schema.object({
+    title: schema.optional(title),
+    completed: schema.optional(schema.boolean())
+  })
+};
+
+// Response schemas, for the OpenAPI document
+const todoSchema = schema.object({
+  id: schema.string({ format: "uuid" }),
+  title: schema.string(),
+  completed: schema.boolean(),
+  createdAt: schema.string({ format: "date-time" })
+});
+
+const problemSchema = schema.object({
+  title: schema.string(),
+  status: schema.integer(),
+  detail: schema.optional(schema.string()),
+  requestId: schema.string()
+});
+
+const problem = (description: string) =>
+  ({ description, body: problemSchema, contentType: "application/problem+json" });
+
+const notFoundResponse = problem("No todo with this id");
+
 // Common middleware stacks
-const baseMiddleware = [requestLogger];
-const protectedMiddleware = [requestLogger, auth];
+const globalMiddleware = [requestLogger];
+// Retried mutations carrying an Idempotency-Key run once per user and key
+const protectedMiddleware = [
+  auth,
+  idempotency({ scope: (_req, context) => context.state.user?.token ?? "" })
+];
 
-// Routes
-const routes: Route[] = [
-  get("/api/todos", (req) => {
-    const items = Array.from(todos.values());
-    return json(items);
-  }),
+// Mutations share a stricter budget per authenticated user: 10 requests per minute
+const mutationRateLimit = {
+  maxRequests: 10,
+  windowMs: 60000,
+  scope: "todo-mutations",
+  key: byUser(context => context.state.user?.token)
+};
 
-  get(new RegExp("^/api/todos/[\\w-]+$"), (req) => {
-    const id = new URL(req.url).pathname.split('/')[3];
-    const todo = todos.get(id);
+// Routes, relative to the /api/todos mount point
+const todoRoutes: Route[] = [
+  withDocs(get("/", listTodosInput, (_req, { input: { query } }) => {
+    // Parsed query parameters
+    const { completed, search } = query;
 
-    return todo
-      ? json(todo)
-      : json({ error: "Not found" }, 404);
-  }),
+    let items = Array.from(todos.values());
 
-  post("/api/todos", async (req) => {
-    const body = await req.json();
+    // Filter by completion status
+    if (completed !== undefined) {
+      items = items.filter(todo => todo.completed === completed);
+    }
 
-    if (!body.title || typeof body.title !== 'string') {
-      return json({ error: "Invalid title" }, 400);
+    // Filter by search term
+    if (search) {
+      items = items.filter(todo =>
+        todo.title.toLowerCase().includes(search.toLowerCase())
+      );
     }
 
+    return json(items);
+  }), {
+    summary: "List todos",
+    responses: { "200": { description: "Matching todos", body: schema.array(todoSchema) } }
+  }),
+
+  withDocs(get("/:id", (_req, { params: { id } }) => json(findTodo(id))), {
+    summary: "Get a todo",
+    responses: { "200": { description: "The todo", body: todoSchema }, "404": notFoundResponse }
+  }),
+
+  withDocs(post("/", createTodoInput, (_req, { input: { body } }) => {
     const todo: Todo = {
       id: crypto.randomUUID(),
       title: body.title,
@@ -75,213 +159,66 @@ const routes: Route[] = [
 
     todos.set(todo.id, todo);
     return json(todo, 201);
+  }), {
+    summary: "Create a todo",
+    responses: { "201": { description: "The created todo", body: todoSchema } }
   }),
 
-  patch(new RegExp("^/api/todos/[\\w-]+$"), async (req) => {
-    const id = new URL(req.url).pathname.split('/')[3];
-    const todo = todos.get(id);
-
-    if (!todo) {
-      return json({ error: "Not found" }, 404);
-    }
-
-    const body = await req.json();
-    const updated = {
-      ...todo,
-      ...('title' in body ? { title: body.title } : {}),
-      ...('completed' in body ? { completed: !!body.completed } : {})
-    };
+  withDocs(patch("/:id", updateTodoInput, (_req, { params: { id }, input: { body } }) => {
+    const updated = { ...findTodo(id), ...body };
 
     todos.set(id, updated);
     return json(updated);
+  }), {
+    summary: "Update a todo",
+    responses: { "200": { description: "The updated todo", body: todoSchema }, "404": notFoundResponse }
   }),
 
-  del(new RegExp("^/api/todos/[\\w-]+$"), (req) => {
-    const id = new URL(req.url).pathname.split('/')[3];
-    const deleted = todos.delete(id);
-
-    return deleted
-      ? json({ message: "Deleted" })
-      : json({ error: "Not found" }, 404);
+  withDocs(del("/:id", (_req, { params: { id } }) => {
+    findTodo(id);
+    todos.delete(id);
+    return json({ message: "Deleted" });
+  }), {
+    summary: "Delete a todo",
+    responses: {
+      "200": { description: "The todo was deleted", body: schema.object({ message: schema.string() }) },
+      "404": notFoundResponse
+    }
   })
 ];
 
-// Apply middleware to routes
-const routesWithMiddleware = routes.map(route =>
-  route.method === 'GET'
-    ? addMiddleware(route, baseMiddleware)
-    : addMiddleware(route, protectedMiddleware)
+// Reads are public, mutations require auth
+const routes = group(
+  "/api/todos",
+  todoRoutes.map(route =>
+    route.method === 'GET'
+      ? route
+      : withDocs(withRateLimit(addMiddleware(route, protectedMiddleware), mutationRateLimit), {
+        security: [{ bearerAuth: [] }],
+        responses: { "401": problem("Missing credentials") }
+      })
+  ),
+  { docs: { tags: ["todos"] } }
 );
 
-// Start server
-run(routesWithMiddleware);
-
-// lib/middleware.ts
-export const requestLogger: Middleware = async (req, next) => {
-  const start = Date.now();
-  const response = await next(req);
-  const duration = Date.now() - start;
-
-  console.log(
-    `${req.method} ${new URL(req.url).pathname} - ${response.status} (${duration}ms)`
-  );
-
-  return response;
+// Served at /openapi.json; `deno task openapi` writes it to openapi.json
+const openapi: OpenApiOptions = {
+  info: { title: "Todo API", version: "1.0.0" },
+  tags: [{ name: "todos", description: "Manage todo items" }],
+  securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } }
 };
 
-export const cors = (origins: string[]): Middleware => {
-  return async (req, next) => {
-    if (req.method === "OPTIONS") {
-      return new Response(null, {
-        headers: {
-          "Access-Control-Allow-Origin": origins.join(", "),
-          "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, PATCH, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, Authorization"
-        }
-      });
-    }
-
-    const response = await next(req);
-    response.headers.set("Access-Control-Allow-Origin", origins.join(", "));
-    return response;
-  };
-};
-
-export const queryParser: Middleware = async (req, next) => {
-  const url = new URL(req.url);
-  const query = Object.fromEntries(url.searchParams);
-  // Attach query to Request object through custom property
-  Object.defineProperty(req, 'query', { value: query, writable: false });
-  return next(req);
-};
-
-// types.ts
-type Todo = {
-  id: string;
-  title: string;
-  completed: boolean;
-  createdAt: string;
-};
-
-// Extend Request to include our custom properties
-declare global {
-  interface Request {
-    query?: Record<string, string>;
-  }
+// Start server
+// The frontend dev server may call the API; CORS_ORIGINS adds more origins
+if (import.meta.main) {
+  run(routes, {
+    middleware: globalMiddleware,
+    cors: { origins: ["http://localhost:3000"], maxAge: 600 },
+    openapi
+  });
 }
 
-// app.ts
-import { run, Route, json } from "../lib/server.ts";
-import { requestLogger, cors, queryParser } from "../lib/middleware.ts";
-
-// Global middleware applied to all routes
-const globalMiddleware = [
-  requestLogger,
-  cors(["http://localhost:3000"]),
-  queryParser
-];
-
-// Response helpers
-const badRequest = (message: string) => json({ error: message }, 400);
-const notFound = (message: string) => json({ error: message }, 404);
-
-// Example route-specific middleware
-const validateAuth: Middleware = async (req, next) => {
-  const token = req.headers.get("Authorization");
-  if (!token) {
-    return json({ error: "Unauthorized" }, 401);
-  }
-  return next(req);
-};
-
-const rateLimiter = (limit: number, window: number): Middleware => {
-  const requests = new Map<string, number[]>();
-
-  return async (req, next) => {
-    const ip = req.headers.get("x-forwarded-for") || "unknown";
-    const now = Date.now();
-
-    const userRequests = requests.get(ip) || [];
-    const recentRequests = userRequests.filter(time => now - time < window);
-
-    if (recentRequests.length >= limit) {
-      return json({ error: "Too many requests" }, 429);
-    }
-
-    recentRequests.push(now);
-    requests.set(ip, recentRequests);
-
-    return next(req);
-  };
-};
-
-const routes: Route[] = [
-  {
-    path: "/api/todos",
-    method: "GET",
-    handler: (req) => {
-      // Access query parameters
-      const { completed, search } = req.query || {};
-
-      let todos = db.list();
-
-      // Filter by completion status
-      if (completed !== undefined) {
-        todos = todos.filter(todo =>
-          todo.completed === (completed === "true")
-        );
-      }
-
-      // Filter by search term
-      if (search) {
-        todos = todos.filter(todo =>
-          todo.title.toLowerCase().includes(search.toLowerCase())
-        );
-      }
-
-      return json(todos);
-    },
-    middleware: [...globalMiddleware]
-  },
-
-  {
-    path: "/api/todos",
-    method: "POST",
-    handler: async (req) => {
-      const body = await req.json().catch(() => null);
-      const input = validateCreateTodo(body);
-
-      if (!input) {
-        return badRequest("Invalid todo data");
-      }
-
-      const todo = db.create(input);
-      return json(todo, 201);
-    },
-    middleware: [
-      ...globalMiddleware,
-      validateAuth,
-      rateLimiter(10, 60000) // 10 requests per minute
-    ]
-  },
-
-  {
-    path: new RegExp("^/api/todos/[\\w-]+$"),
-    method: "GET",
-    handler: (req) => {
-      const id = new URL(req.url).pathname.split('/')[3];
-      const todo = db.get(id);
-
-      return todo
-        ? json(todo)
-        : notFound(`Todo ${id} not found`);
-    },
-    middleware: [...globalMiddleware]
-  }
-];
-
-// Start server
-run(routes);
+export { openapi, routes };
 
 /*
 Example Usage with Query Parameters:
@@ -303,4 +240,11 @@ curl -X POST http://localhost:8000/api/todos \
   -H "Content-Type: application/json" \
   -H "Authorization: Bearer token" \
   -d '{"title": "Learn TypeScript"}'
-*/
\ No newline at end of file
+
+# Create todo safely retried: repeating this returns the same todo
+curl -X POST http://localhost:8000/api/todos \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer token" \
+  -H "Idempotency-Key: 5b0e6a8c-create-milk" \
+  -d '{"title": "Buy milk"}'
+*/
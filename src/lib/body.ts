@@ -0,0 +1,331 @@
+import { Operation, effect } from "./higherEffection.ts";
+import { HttpError } from "./errors.ts";
+
+// Raised while reading a request body; the server answers with `status`
+class RequestBodyError extends HttpError {
+  constructor(override readonly status: 400 | 413 | 415, message: string) {
+    super(status, message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+// Body helpers can be awaited from async handlers or yielded from Operation ones
+type BodyReader<T> = Operation<T> & PromiseLike<T>;
+
+type BodyOptions = Readonly<{
+  // Stricter limit for this read, in bytes; the route's limit always applies
+  maxSize?: number;
+}>;
+
+type UploadedFile = Readonly<{
+  field: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  // Set when files are written to disk; the caller moves or removes the file
+  path?: string;
+  // Set when files are kept in memory
+  bytes?: Uint8Array;
+}>;
+
+type MultipartOptions = BodyOptions & Readonly<{
+  // Where file parts go: kept in memory (default) or streamed into `dir`
+  files?: 'memory' | Readonly<{ dir: string }>;
+  maxFileSize?: number;
+}>;
+
+type MultipartBody = Readonly<{
+  fields: Readonly<Record<string, string>>;
+  files: readonly UploadedFile[];
+}>;
+
+const awaitable = <T>(description: string, read: () => Promise<T>): BodyReader<T> => {
+  let promise: Promise<T> | undefined;
+  const once = () => promise ??= read();
+
+  return {
+    *[Symbol.iterator]() {
+      return yield* effect(description, once);
+    },
+    then(onFulfilled, onRejected) {
+      return once().then(onFulfilled, onRejected);
+    }
+  };
+};
+
+const tooLarge = (maxBytes: number) =>
+  new RequestBodyError(413, `Request body exceeds ${maxBytes} bytes`);
+
+// Enforce `maxBytes` on a request body: a larger Content-Length fails at once,
+// a streamed body fails as soon as the limit is crossed, before it is buffered
+const limitRequestBody = (req: Request, maxBytes: number): Request => {
+  const contentLength = Number(req.headers.get('Content-Length'));
+  if (contentLength > maxBytes) throw tooLarge(maxBytes);
+  if (!req.body) return req;
+
+  let received = 0;
+  const body = req.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        controller.error(tooLarge(maxBytes));
+      } else {
+        controller.enqueue(chunk);
+      }
+    }
+  }));
+
+  return new Request(req, { body });
+};
+
+// Media type without parameters, lower-cased
+const mediaType = (req: Request): string =>
+  (req.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+
+const expectMediaType = (req: Request, accepts: (type: string) => boolean, expected: string) => {
+  const type = mediaType(req);
+  if (!accepts(type)) {
+    throw new RequestBodyError(415, `Expected ${expected}, got ${type || 'no content type'}`);
+  }
+};
+
+const joinChunks = (chunks: readonly Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.byteLength;
+  }, 0);
+  return bytes;
+};
+
+const readAll = async (req: Request, options: BodyOptions): Promise<Uint8Array> => {
+  const source = options.maxSize === undefined ? req : limitRequestBody(req, options.maxSize);
+  if (!source.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of source.body) {
+    chunks.push(chunk);
+  }
+  return joinChunks(chunks);
+};
+
+const decodeText = (bytes: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new RequestBodyError(400, 'Request body is not valid UTF-8');
+  }
+};
+
+const readBytes = (req: Request, options: BodyOptions = {}): BodyReader<Uint8Array> =>
+  awaitable('read-bytes', () => readAll(req, options));
+
+const readText = (req: Request, options: BodyOptions = {}): BodyReader<string> =>
+  awaitable('read-text', async () => decodeText(await readAll(req, options)));
+
+// application/json and application/*+json bodies
+const readJson = <T = unknown>(req: Request, options: BodyOptions = {}): BodyReader<T> =>
+  awaitable('read-json', async () => {
+    expectMediaType(req, type => type === 'application/json' || /^application\/[^/]+\+json$/.test(type), 'application/json');
+    const text = decodeText(await readAll(req, options));
+
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new RequestBodyError(400, `Malformed JSON: ${(error as Error).message}`);
+    }
+  });
+
+const readForm = (req: Request, options: BodyOptions = {}): BodyReader<URLSearchParams> =>
+  awaitable('read-form', async () => {
+    expectMediaType(req, type => type === 'application/x-www-form-urlencoded', 'application/x-www-form-urlencoded');
+    return new URLSearchParams(decodeText(await readAll(req, options)));
+  });
+
+// Streaming multipart/form-data parser
+const encoder = new TextEncoder();
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array, from = 0): number => {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+type PartHeaders = Readonly<{ name: string; filename: string | null; contentType: string }>;
+
+const parsePartHeaders = (block: string): PartHeaders => {
+  const headers = new Map(
+    block.split('\r\n').map(line => {
+      const separator = line.indexOf(':');
+      return [line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim()] as const;
+    })
+  );
+
+  const disposition = headers.get('content-disposition') ?? '';
+  const param = (key: string) =>
+    new RegExp(`;\\s*${key}="((?:[^"\\\\]|\\\\.)*)"`, 'i').exec(disposition)?.[1] ??
+    new RegExp(`;\\s*${key}=([^;\\s]+)`, 'i').exec(disposition)?.[1] ??
+    null;
+
+  const name = param('name');
+  if (!disposition.toLowerCase().startsWith('form-data') || name === null) {
+    throw new RequestBodyError(400, 'Multipart part without a form-data name');
+  }
+
+  return {
+    name,
+    filename: param('filename'),
+    contentType: headers.get('content-type') ?? 'application/octet-stream'
+  };
+};
+
+// Receives one part's bytes as they arrive
+type PartSink = Readonly<{
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => void;
+  abort: () => void;
+}>;
+
+const readMultipart = (req: Request, options: MultipartOptions = {}): BodyReader<MultipartBody> =>
+  awaitable('read-multipart', async () => {
+    expectMediaType(req, type => type === 'multipart/form-data', 'multipart/form-data');
+    const boundary = /boundary="?([^";]+)"?/i.exec(req.headers.get('Content-Type') ?? '')?.[1];
+    if (!boundary) {
+      throw new RequestBodyError(400, 'Multipart body without a boundary');
+    }
+
+    const source = options.maxSize === undefined ? req : limitRequestBody(req, options.maxSize);
+    const { files: storage = 'memory', maxFileSize } = options;
+    const opening = encoder.encode(`--${boundary}`);
+    const delimiter = encoder.encode(`\r\n--${boundary}`);
+    const headerEnd = encoder.encode('\r\n\r\n');
+
+    const fields: Record<string, string> = {};
+    const files: UploadedFile[] = [];
+    // Files already written are removed if the body turns out to be invalid
+    const written: string[] = [];
+
+    const openSink = async (part: PartHeaders): Promise<PartSink> => {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      const path = part.filename !== null && storage !== 'memory'
+        ? `${storage.dir}/${crypto.randomUUID()}`
+        : null;
+      const file = path ? await Deno.open(path, { write: true, createNew: true }) : null;
+      if (path) written.push(path);
+
+      return {
+        async write(chunk) {
+          size += chunk.byteLength;
+          if (part.filename !== null && maxFileSize !== undefined && size > maxFileSize) {
+            throw new RequestBodyError(413, `File ${part.filename} exceeds ${maxFileSize} bytes`);
+          }
+          if (file) {
+            await file.write(chunk);
+          } else {
+            chunks.push(chunk);
+          }
+        },
+        close() {
+          file?.close();
+          const bytes = joinChunks(chunks);
+          if (part.filename === null) {
+            fields[part.name] = decodeText(bytes);
+            return;
+          }
+          files.push({
+            field: part.name,
+            filename: part.filename,
+            contentType: part.contentType,
+            size,
+            ...(path ? { path } : { bytes })
+          });
+        },
+        abort() {
+          file?.close();
+        }
+      };
+    };
+
+    // Parser state, advanced by `process` as chunks arrive
+    const parser: { buffer: Uint8Array; state: 'preamble' | 'headers' | 'body' | 'done'; sink: PartSink | null } = {
+      buffer: new Uint8Array(),
+      state: 'preamble',
+      sink: null
+    };
+
+    const process = async () => {
+      while (parser.state !== 'done') {
+        const { buffer, state, sink } = parser;
+
+        if (state === 'preamble') {
+          const start = indexOf(buffer, opening);
+          if (start === -1) return;
+          parser.buffer = buffer.slice(start + opening.length);
+          parser.state = 'headers';
+        } else if (state === 'headers') {
+          // "--" after a boundary ends the body; otherwise a CRLF starts the part
+          if (buffer.length < 2) return;
+          if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+            parser.state = 'done';
+            return;
+          }
+          const end = indexOf(buffer, headerEnd);
+          if (end === -1) return;
+          parser.sink = await openSink(parsePartHeaders(new TextDecoder().decode(buffer.slice(2, end))));
+          parser.buffer = buffer.slice(end + headerEnd.length);
+          parser.state = 'body';
+        } else if (sink) {
+          const end = indexOf(buffer, delimiter);
+          if (end === -1) {
+            // Keep a tail that could be the start of a delimiter
+            const safe = buffer.length - delimiter.length + 1;
+            if (safe > 0) {
+              await sink.write(buffer.slice(0, safe));
+              parser.buffer = buffer.slice(safe);
+            }
+            return;
+          }
+          await sink.write(buffer.slice(0, end));
+          sink.close();
+          parser.sink = null;
+          parser.buffer = buffer.slice(end + delimiter.length);
+          parser.state = 'headers';
+        }
+      }
+    };
+
+    try {
+      for await (const chunk of source.body ?? []) {
+        parser.buffer = joinChunks([parser.buffer, chunk]);
+        await process();
+        if (parser.state === 'done') break;
+      }
+
+      if (parser.state !== 'done') {
+        throw new RequestBodyError(400, 'Multipart body ended before its closing boundary');
+      }
+    } catch (error) {
+      parser.sink?.abort();
+      await Promise.all(written.map(path => Deno.remove(path).catch(() => {})));
+      throw error;
+    }
+
+    return { fields, files };
+  });
+
+export {
+  RequestBodyError,
+  limitRequestBody,
+  mediaType,
+  readBytes,
+  readForm,
+  readJson,
+  readMultipart,
+  readText
+};
+export type { BodyOptions, BodyReader, MultipartBody, MultipartOptions, UploadedFile };
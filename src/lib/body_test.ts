@@ -0,0 +1,123 @@
+// body_test.ts
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { RequestBodyError, limitRequestBody, readForm, readJson, readMultipart, readText } from "./body.ts";
+import { group, post, withBodyLimit } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+const multipartBody = (boundary: string, parts: readonly string[]) =>
+  parts.map(part => `--${boundary}\r\n${part}\r\n`).join("") + `--${boundary}--\r\n`;
+
+const multipartRequest = (parts: readonly string[]) =>
+  new Request("http://localhost/upload", {
+    method: "POST",
+    headers: { "Content-Type": "multipart/form-data; boundary=XyZ" },
+    body: multipartBody("XyZ", parts)
+  });
+
+// A body without Content-Length, delivered in chunks
+const streamedRequest = (chunks: readonly string[], contentType = "text/plain") =>
+  new Request("http://localhost/", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: ReadableStream.from(chunks.map(chunk => new TextEncoder().encode(chunk)))
+  });
+
+Deno.test("limitRequestBody rejects a large Content-Length before reading", () => {
+  const req = new Request("http://localhost/", {
+    method: "POST",
+    headers: { "Content-Length": "100" },
+    body: "x".repeat(100)
+  });
+
+  const error = assertThrows(() => limitRequestBody(req, 10), RequestBodyError, "Request body exceeds 10 bytes");
+  assertEquals(error.status, 413);
+});
+
+Deno.test("limitRequestBody fails a streamed body once it crosses the limit", async () => {
+  const req = limitRequestBody(streamedRequest(["12345", "67890", "abcde"]), 8);
+  const error = await assertRejects(() => readText(req), RequestBodyError, "Request body exceeds 8 bytes");
+  assertEquals(error.status, 413);
+
+  assertEquals(await readText(limitRequestBody(streamedRequest(["1234", "5678"]), 8)), "12345678");
+});
+
+Deno.test("readJson checks the media type and reports malformed bodies", async () => {
+  const wrongType = await assertRejects(
+    () => readJson(streamedRequest(["{}"], "text/plain")),
+    RequestBodyError,
+    "Expected application/json, got text/plain"
+  );
+  assertEquals(wrongType.status, 415);
+
+  const malformed = await assertRejects(
+    () => readJson(streamedRequest(["{\"title\":"], "application/json")),
+    RequestBodyError,
+    "Malformed JSON"
+  );
+  assertEquals(malformed.status, 400);
+
+  assertEquals(await readJson(streamedRequest(["{\"ok\":", "true}"], "application/merge-patch+json")), { ok: true });
+});
+
+Deno.test("readForm parses urlencoded bodies", async () => {
+  const form = await readForm(streamedRequest(["title=Buy+milk&tag=a", "&tag=b"], "application/x-www-form-urlencoded"));
+  assertEquals(form.get("title"), "Buy milk");
+  assertEquals(form.getAll("tag"), ["a", "b"]);
+});
+
+Deno.test("readMultipart keeps fields and files in memory", async () => {
+  const { fields, files } = await readMultipart(multipartRequest([
+    'Content-Disposition: form-data; name="title"\r\n\r\nHoliday',
+    'Content-Disposition: form-data; name="photo"; filename="a.txt"\r\nContent-Type: text/plain\r\n\r\nline 1\r\nline 2'
+  ]));
+
+  assertEquals(fields, { title: "Holiday" });
+  assertEquals(files.length, 1);
+  assertEquals(files[0].filename, "a.txt");
+  assertEquals(files[0].contentType, "text/plain");
+  assertEquals(new TextDecoder().decode(files[0].bytes), "line 1\r\nline 2");
+});
+
+Deno.test("readMultipart streams files to disk and cleans up on errors", async () => {
+  const dir = await Deno.makeTempDir();
+
+  try {
+    const { files } = await readMultipart(multipartRequest([
+      'Content-Disposition: form-data; name="doc"; filename="doc.bin"\r\n\r\n' + "x".repeat(5000)
+    ]), { files: { dir } });
+
+    assertEquals(files[0].size, 5000);
+    assertEquals(await Deno.readTextFile(files[0].path!), "x".repeat(5000));
+    await Deno.remove(files[0].path!);
+
+    const error = await assertRejects(
+      () => readMultipart(multipartRequest([
+        'Content-Disposition: form-data; name="doc"; filename="big.bin"\r\n\r\n' + "x".repeat(100)
+      ]), { files: { dir }, maxFileSize: 10 }),
+      RequestBodyError
+    );
+    assertEquals(error.status, 413);
+    assertEquals(await Array.fromAsync(Deno.readDir(dir)), []);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("body errors become responses, with per-route limits", async () => {
+  const echo = async (req: Request) => new Response(await readText(req));
+  const client = createTestClient([
+    post("/small", echo),
+    withBodyLimit(post("/large", echo), 64),
+    ...group("/api", [post("/json", function* (req) {
+      return Response.json(yield* readJson(req));
+    })], { maxRequestSize: 32 })
+  ], { maxRequestSize: 16 });
+
+  assertEquals((await client.post("/small", { body: "x".repeat(17) })).status, 413);
+  assertEquals(await (await client.post("/large", { body: "x".repeat(17) })).text(), "x".repeat(17));
+  assertEquals((await client.post("/large", { body: streamedRequest(["x".repeat(40), "x".repeat(40)]).body })).status, 413);
+
+  assertEquals(await (await client.post("/api/json", { json: { a: "0123456789" } })).json(), { a: "0123456789" });
+  assertEquals((await client.post("/api/json", { body: "{}" })).status, 415);
+  assertEquals((await client.post("/api/json", { body: "{", headers: { "Content-Type": "application/json" } })).status, 400);
+});
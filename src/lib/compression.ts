@@ -0,0 +1,137 @@
+// Content encodings the server can produce on the fly
+type Encoding = 'gzip' | 'deflate';
+
+type CompressionOptions = Readonly<{
+  // Bodies of a known length below this many bytes are sent as they are
+  threshold?: number;
+  // Encodings offered, most preferred first
+  encodings?: readonly Encoding[];
+  // Which content types are worth compressing
+  compressible?: (contentType: string) => boolean;
+}>;
+
+declare module "./context.ts" {
+  interface RequestState {
+    // False to send the response uncompressed, as routes opting out do
+    compress?: boolean;
+  }
+}
+
+// Text formats compress well; images, video, archives and fonts already are.
+// Event streams are left alone, as compressing them holds events back.
+const isCompressible = (contentType: string): boolean => {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return (type.startsWith('text/') && type !== 'text/event-stream') ||
+    /^application\/(json|javascript|xml|x-www-form-urlencoded|wasm|[\w.-]+\+(json|xml))$/.test(type) ||
+    type === 'image/svg+xml';
+};
+
+// Pick the encoding the client weights highest among `available`, in
+// `available` order on ties. Null means the identity encoding.
+const negotiateEncoding = <E extends string>(
+  acceptEncoding: string | null,
+  available: readonly E[]
+): E | null => {
+  if (!acceptEncoding) return null;
+
+  const weights = new Map(acceptEncoding.split(',').flatMap(part => {
+    const [coding, ...params] = part.trim().toLowerCase().split(';').map(value => value.trim());
+    if (!coding) return [];
+    const q = params.find(param => param.startsWith('q='));
+    return [[coding, q ? Number(q.slice(2)) || 0 : 1] as const];
+  }));
+
+  let best: E | null = null;
+  let bestWeight = 0;
+  for (const encoding of available) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+};
+
+// Add a token to a comma-separated header such as Vary without repeating it
+const appendHeaderToken = (headers: Headers, name: string, token: string) => {
+  const current = headers.get(name);
+  const tokens = current?.split(',').map(value => value.trim().toLowerCase()) ?? [];
+  if (tokens.includes(token.toLowerCase()) || tokens.includes('*')) return;
+  headers.set(name, current ? `${current}, ${token}` : token);
+};
+
+// The chunks already read, then the rest of the body
+const resumeBody = (
+  chunks: readonly Uint8Array<ArrayBuffer>[],
+  rest: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>
+): ReadableStream<Uint8Array<ArrayBuffer>> =>
+  new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+    },
+    async pull(controller) {
+      const { done, value } = await rest.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return rest.cancel(reason);
+    }
+  });
+
+// Compress a response body with CompressionStream when the client accepts it
+// and the response is worth it. Range responses, bodies that are already
+// encoded and responses marked `Cache-Control: no-transform` are left alone.
+// Bodies of unknown length are judged by their first chunk.
+const compressResponse = async (
+  req: Request,
+  response: Response,
+  options: CompressionOptions = {}
+): Promise<Response> => {
+  const { threshold = 1024, encodings = ['gzip', 'deflate'], compressible = isCompressible } = options;
+
+  const contentType = response.headers.get('Content-Type');
+  const length = response.headers.get('Content-Length');
+  const skip = !response.body ||
+    !contentType ||
+    !compressible(contentType) ||
+    req.method === 'HEAD' ||
+    response.status === 206 ||
+    response.headers.has('Content-Range') ||
+    response.headers.has('Content-Encoding') ||
+    /(^|,)\s*no-transform\s*(,|$)/i.test(response.headers.get('Cache-Control') ?? '') ||
+    (length !== null && Number(length) < threshold);
+  if (skip) return response;
+
+  // Whether or not this client gets it compressed, caches must tell them apart
+  const headers = new Headers(response.headers);
+  appendHeaderToken(headers, 'Vary', 'Accept-Encoding');
+  const init = { status: response.status, statusText: response.statusText, headers };
+
+  const encoding = negotiateEncoding(req.headers.get('Accept-Encoding'), encodings);
+  if (!encoding || !response.body) return new Response(response.body, init);
+
+  let body = response.body;
+  if (length === null) {
+    // Only the first chunk is awaited, so a stream of small chunks isn't held
+    // back waiting for `threshold` bytes; it goes out uncompressed
+    const reader = body.getReader();
+    const first = await reader.read();
+    body = resumeBody(first.done ? [] : [first.value], reader);
+    if (first.done || first.value.length < threshold) {
+      return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+  }
+
+  headers.set('Content-Encoding', encoding);
+  headers.delete('Content-Length');
+  // The compressed bytes differ, so a strong validator would be wrong
+  const etag = headers.get('ETag');
+  if (etag && !etag.startsWith('W/')) headers.set('ETag', `W/${etag}`);
+
+  return new Response(body.pipeThrough(new CompressionStream(encoding)), init);
+};
+
+export { appendHeaderToken, compressResponse, isCompressible, negotiateEncoding };
+export type { CompressionOptions, Encoding };
@@ -0,0 +1,142 @@
+// compression_test.ts
+import { assertEquals } from "@std/assert";
+import { isCompressible, negotiateEncoding } from "./compression.ts";
+import { get, withCompression } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+const text = "All work and no play makes Jack a dull boy. ".repeat(100);
+const gzip = { "Accept-Encoding": "gzip, deflate" };
+
+const decompress = (response: Response, format: CompressionFormat) =>
+  new Response(response.body!.pipeThrough(new DecompressionStream(format))).text();
+
+// Sends one small line, then the rest once released
+const progress = Promise.withResolvers<void>();
+const progressBody = () => new ReadableStream<Uint8Array>({
+  async start(controller) {
+    controller.enqueue(new TextEncoder().encode("step 1\n"));
+    await progress.promise;
+    controller.enqueue(new TextEncoder().encode(text));
+    controller.close();
+  }
+});
+
+const routes = [
+  get("/text", () => new Response(text, { headers: { "Content-Type": "text/plain", ETag: '"v1"' } })),
+  get("/json", () => Response.json({ text })),
+  get("/small", () => new Response("tiny", { headers: { "Content-Type": "text/plain" } })),
+  get("/small.json", () => Response.json({ ok: true })),
+  get("/progress", () => new Response(progressBody(), { headers: { "Content-Type": "text/plain" } })),
+  get("/events", () => new Response(text, { headers: { "Content-Type": "text/event-stream" } })),
+  get("/image", () => new Response(text, { headers: { "Content-Type": "image/png" } })),
+  get("/range", () => new Response(text.slice(0, 100), {
+    status: 206,
+    headers: { "Content-Type": "text/plain", "Content-Range": `bytes 0-99/${text.length}` }
+  })),
+  withCompression(get("/raw", () => new Response(text, { headers: { "Content-Type": "text/plain" } })), false)
+];
+
+Deno.test("negotiateEncoding weighs Accept-Encoding against the available encodings", () => {
+  assertEquals(negotiateEncoding(null, ["gzip", "deflate"]), null);
+  assertEquals(negotiateEncoding("deflate, gzip", ["gzip", "deflate"]), "gzip");
+  assertEquals(negotiateEncoding("gzip;q=0.5, deflate", ["gzip", "deflate"]), "deflate");
+  assertEquals(negotiateEncoding("gzip;q=0, *", ["gzip", "deflate"]), "deflate");
+  assertEquals(negotiateEncoding("br", ["gzip", "deflate"]), null);
+  assertEquals(negotiateEncoding("identity", ["gzip"]), null);
+
+  assertEquals(isCompressible("text/html; charset=utf-8"), true);
+  assertEquals(isCompressible("application/problem+json"), true);
+  assertEquals(isCompressible("image/svg+xml"), true);
+  assertEquals(isCompressible("text/event-stream"), false);
+  assertEquals(isCompressible("image/png"), false);
+  assertEquals(isCompressible("application/zip"), false);
+});
+
+Deno.test("compressible responses are compressed for clients accepting it", async () => {
+  const client = createTestClient(routes);
+
+  const compressed = await client.get("/text", { headers: gzip });
+  assertEquals(compressed.headers.get("Content-Encoding"), "gzip");
+  assertEquals(compressed.headers.get("Vary"), "Accept-Encoding");
+  assertEquals(compressed.headers.get("ETag"), 'W/"v1"');
+  assertEquals(await decompress(compressed, "gzip"), text);
+
+  const deflated = await client.get("/json", { headers: { "Accept-Encoding": "deflate" } });
+  assertEquals(deflated.headers.get("Content-Encoding"), "deflate");
+  assertEquals(JSON.parse(await decompress(deflated, "deflate")), { text });
+
+  // Caches still need to know the response varies
+  const plain = await client.get("/text");
+  assertEquals([plain.headers.get("Content-Encoding"), plain.headers.get("Vary")], [null, "Accept-Encoding"]);
+  assertEquals(await plain.text(), text);
+});
+
+Deno.test("small, already compressed, partial and opted out responses are sent as they are", async () => {
+  const client = createTestClient(routes);
+
+  for (const path of ["/image", "/range", "/events", "/raw"]) {
+    const response = await client.get(path, { headers: gzip });
+    assertEquals(response.headers.get("Content-Encoding"), null, path);
+    await response.body?.cancel();
+  }
+
+  // Bodies without a Content-Length are judged by their first chunk
+  const small = await client.get("/small", { headers: gzip });
+  assertEquals(small.headers.get("Content-Encoding"), null);
+  assertEquals(await small.text(), "tiny");
+  const smallJson = await client.get("/small.json", { headers: gzip });
+  assertEquals(smallJson.headers.get("Content-Encoding"), null);
+  assertEquals(await smallJson.json(), { ok: true });
+
+  // A stream isn't held back until `threshold` bytes arrive
+  const streamed = await client.get("/progress", { headers: gzip });
+  assertEquals(streamed.headers.get("Content-Encoding"), null);
+  const reader = streamed.body!.getReader();
+  assertEquals(new TextDecoder().decode((await reader.read()).value), "step 1\n");
+  progress.resolve();
+  let rest = "";
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    rest += new TextDecoder().decode(chunk.value);
+  }
+  assertEquals(rest, text);
+
+  const disabled = await createTestClient(routes, {}, { compression: false }).get("/text", { headers: gzip });
+  assertEquals([disabled.headers.get("Content-Encoding"), disabled.headers.get("Vary")], [null, null]);
+  assertEquals(await disabled.text(), text);
+});
+
+Deno.test("static files are served from precompressed siblings", async () => {
+  const publicDir = await Deno.makeTempDir();
+  const gzipped = new Uint8Array(await new Response(
+    new Blob([text]).stream().pipeThrough(new CompressionStream("gzip"))
+  ).arrayBuffer());
+
+  try {
+    await Deno.writeTextFile(`${publicDir}/app.js`, text);
+    await Deno.writeFile(`${publicDir}/app.js.gz`, gzipped);
+    await Deno.writeTextFile(`${publicDir}/app.css`, text);
+    const client = createTestClient([], { publicDir });
+
+    const sibling = await client.get("/app.js", { headers: { "Accept-Encoding": "gzip, br" } });
+    assertEquals(sibling.headers.get("Content-Encoding"), "gzip");
+    assertEquals(sibling.headers.get("Content-Type"), "text/javascript; charset=utf-8");
+    assertEquals(sibling.headers.get("Content-Length"), String(gzipped.length));
+    assertEquals(sibling.headers.get("Vary"), "Accept-Encoding");
+    assertEquals(await decompress(sibling, "gzip"), text);
+
+    const original = await client.get("/app.js");
+    assertEquals([original.headers.get("Content-Encoding"), original.headers.get("Vary")], [null, "Accept-Encoding"]);
+    assertEquals(await original.text(), text);
+
+    // Without a sibling the file is compressed on the fly, except for ranges
+    const onTheFly = await client.get("/app.css", { headers: gzip });
+    assertEquals(onTheFly.headers.get("Content-Encoding"), "gzip");
+    assertEquals(await decompress(onTheFly, "gzip"), text);
+
+    const range = await client.get("/app.css", { headers: { ...gzip, Range: "bytes=0-9" } });
+    assertEquals([range.status, range.headers.get("Content-Encoding")], [206, null]);
+    assertEquals(await range.text(), text.slice(0, 10));
+  } finally {
+    await Deno.remove(publicDir, { recursive: true });
+  }
+});
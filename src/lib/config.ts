@@ -0,0 +1,319 @@
+import { parse as parseJsonc } from "@std/jsonc";
+import { Operation, compute, effect, type Result } from "./higherEffection.ts";
+import { parseRegExpOrigin } from "./cors.ts";
+import type { RateLimitAlgorithm } from "./rateLimit.ts";
+import type { MimeTypes } from "./mime.ts";
+
+// Type definitions using readonly to ensure immutability
+type ServerConfig = Readonly<{
+  port: number;
+  env: string;
+  publicDir: string;
+  shutdownTimeout: number;
+  maxRequestSize: number;
+  corsOrigins: readonly string[];
+  // Content types of static files by extension, on top of the built-in table
+  mimeTypes?: MimeTypes;
+  rateLimits: {
+    readonly windowMs: number;
+    readonly maxRequests: number;
+    // "sliding-window" when not set
+    readonly algorithm?: RateLimitAlgorithm;
+  };
+  security: {
+    readonly csp: Readonly<Record<string, readonly string[]>>;
+    readonly hstsMaxAge: number;
+  };
+}>;
+
+// Nested objects may be overridden one field at a time; arrays are replaced
+type ConfigOverrides = {
+  readonly [K in keyof ServerConfig]?: ServerConfig[K] extends readonly unknown[]
+    ? ServerConfig[K]
+    : ServerConfig[K] extends object ? Partial<ServerConfig[K]> : ServerConfig[K];
+};
+
+type ConfigOptions = Readonly<{
+  // JSON or JSONC file; defaults to the CONFIG_FILE environment variable
+  file?: string;
+  // Environment variables; defaults to `Deno.env`
+  env?: Readonly<Record<string, string>>;
+  // Programmatic overrides, applied last
+  overrides?: ConfigOverrides;
+}>;
+
+// Configuration used where no other layer says otherwise
+const defaultConfig: ServerConfig = {
+  port: 8000,
+  env: 'development',
+  publicDir: './public',
+  shutdownTimeout: 5000,
+  maxRequestSize: 1048576,
+  corsOrigins: [],
+  mimeTypes: {},
+  rateLimits: {
+    windowMs: 60000,
+    maxRequests: 100,
+    algorithm: 'sliding-window'
+  },
+  security: {
+    csp: {
+      'default-src': ["'self'"],
+      'script-src': ["'self'", "'unsafe-inline'"],
+      'style-src': ["'self'", "'unsafe-inline'"]
+    },
+    hstsMaxAge: 31536000
+  }
+};
+
+type Layer = Readonly<Record<string, unknown>>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A policy is only meaningful as a whole, so a later layer replaces it
+const REPLACED_PATHS: ReadonlySet<string> = new Set(['security.csp']);
+
+const mergeLayers = (
+  merged: Record<string, unknown>,
+  layer: Record<string, unknown>,
+  path: string
+): Record<string, unknown> => {
+  const next = { ...merged };
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) continue;
+    const keyPath = path ? `${path}.${key}` : key;
+    const current = next[key];
+    next[key] = isPlainObject(value) && isPlainObject(current) && !REPLACED_PATHS.has(keyPath)
+      ? mergeLayers(current, value, keyPath)
+      : value;
+  }
+  return next;
+};
+
+// Deep-merge layers left to right; objects merge key by key, everything else replaces
+const mergeConfig = (...layers: readonly unknown[]): Record<string, unknown> =>
+  layers.reduce<Record<string, unknown>>(
+    (merged, layer) => isPlainObject(layer) ? mergeLayers(merged, layer, '') : merged,
+    {}
+  );
+
+// Environment variables understood by the loader
+const parseNumber = (value: string): unknown =>
+  value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+
+const parseList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+// "default-src 'self'; img-src 'self' data:" in the header's own syntax
+const parseCsp = (value: string): Record<string, string[]> =>
+  Object.fromEntries(
+    value.split(';')
+      .map(directive => directive.trim().split(/\s+/))
+      .filter(([name]) => name.length > 0)
+      .map(([name, ...sources]) => [name, sources])
+  );
+
+const envVariables: ReadonlyArray<readonly [string, string, (value: string) => unknown]> = [
+  ['PORT', 'port', parseNumber],
+  ['DENO_ENV', 'env', value => value],
+  ['PUBLIC_DIR', 'publicDir', value => value],
+  ['SHUTDOWN_TIMEOUT', 'shutdownTimeout', parseNumber],
+  ['MAX_REQUEST_SIZE', 'maxRequestSize', parseNumber],
+  ['CORS_ORIGINS', 'corsOrigins', parseList],
+  ['RATE_LIMIT_WINDOW_MS', 'rateLimits.windowMs', parseNumber],
+  ['RATE_LIMIT_MAX_REQUESTS', 'rateLimits.maxRequests', parseNumber],
+  ['RATE_LIMIT_ALGORITHM', 'rateLimits.algorithm', value => value],
+  ['CSP', 'security.csp', parseCsp],
+  ['HSTS_MAX_AGE', 'security.hstsMaxAge', parseNumber]
+];
+
+const readEnvConfig = (env: Readonly<Record<string, string>>): Layer =>
+  envVariables.reduce<Record<string, unknown>>((layer, [name, key, parse]) => {
+    const value = env[name];
+    if (value === undefined) return layer;
+
+    const [head, tail] = key.split('.');
+    return mergeConfig(layer, { [head]: tail ? { [tail]: parse(value) } : parse(value) });
+  }, {});
+
+// Validation: every problem is collected so they can be fixed in one go
+type Check = (value: unknown, path: string) => readonly string[];
+
+const describe = (value: unknown): string =>
+  value === undefined ? 'nothing' : JSON.stringify(value);
+
+const integer = (min: number, max?: number): Check => (value, path) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= (max ?? Infinity)
+    ? []
+    : [`${path}: expected an integer ${max === undefined ? `>= ${min}` : `between ${min} and ${max}`}, got ${describe(value)}`];
+
+const nonEmptyString: Check = (value, path) =>
+  typeof value === 'string' && value.trim().length > 0
+    ? []
+    : [`${path}: expected a non-empty string, got ${describe(value)}`];
+
+const oneOf = (choices: readonly string[]): Check => (value, path) =>
+  typeof value === 'string' && choices.includes(value)
+    ? []
+    : [`${path}: expected one of ${choices.map(choice => JSON.stringify(choice)).join(', ')}, got ${describe(value)}`];
+
+const optional = (check: Check): Check => (value, path) =>
+  value === undefined ? [] : check(value, path);
+
+const arrayOf = (item: Check): Check => (value, path) =>
+  Array.isArray(value)
+    ? value.flatMap((element, index) => item(element, `${path}[${index}]`))
+    : [`${path}: expected an array, got ${describe(value)}`];
+
+const objectOf = (fields: Readonly<Record<string, Check>>): Check => (value, path) => {
+  const prefix = path ? `${path}.` : '';
+  if (!isPlainObject(value)) {
+    return [`${path || 'config'}: expected an object, got ${describe(value)}`];
+  }
+
+  const unknown = Object.keys(value)
+    .filter(key => !(key in fields))
+    .map(key => `${prefix}${key}: unknown setting`);
+
+  return [
+    ...Object.entries(fields).flatMap(([key, check]) => check(value[key], `${prefix}${key}`)),
+    ...unknown
+  ];
+};
+
+const corsOrigin: Check = (value, path) => {
+  const problems = nonEmptyString(value, path);
+  if (problems.length > 0) return problems;
+
+  try {
+    parseRegExpOrigin(value as string);
+    return [];
+  } catch (error) {
+    return [`${path}: invalid regular expression, ${(error as Error).message}`];
+  }
+};
+
+const cspSource: Check = (value, path) =>
+  typeof value === 'string' && value.length > 0 && !/[\s;,]/.test(value)
+    ? []
+    : [`${path}: expected a source without whitespace, ";" or ",", got ${describe(value)}`];
+
+const cspDirectives: Check = (value, path) => {
+  if (!isPlainObject(value)) {
+    return [`${path}: expected an object of directives, got ${describe(value)}`];
+  }
+
+  return Object.entries(value).flatMap(([directive, sources]) => [
+    ...(/^[a-z][a-z-]*$/.test(directive) ? [] : [`${path}: invalid directive name ${describe(directive)}`]),
+    ...arrayOf(cspSource)(sources, `${path}.${directive}`)
+  ]);
+};
+
+// { "md": "text/markdown" }; extensions may start with a dot
+const mimeTypeMap: Check = (value, path) => {
+  if (!isPlainObject(value)) {
+    return [`${path}: expected an object of content types by extension, got ${describe(value)}`];
+  }
+
+  return Object.entries(value).flatMap(([extension, type]) => [
+    ...(/^\.?[\w+-]+$/.test(extension) ? [] : [`${path}: invalid extension ${describe(extension)}`]),
+    ...(typeof type === 'string' && /^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/.test(type)
+      ? []
+      : [`${path}.${extension}: expected a content type such as "text/markdown", got ${describe(type)}`])
+  ]);
+};
+
+const configSchema = objectOf({
+  port: integer(0, 65535),
+  env: nonEmptyString,
+  publicDir: nonEmptyString,
+  shutdownTimeout: integer(0),
+  maxRequestSize: integer(1),
+  corsOrigins: arrayOf(corsOrigin),
+  mimeTypes: optional(mimeTypeMap),
+  rateLimits: objectOf({
+    windowMs: integer(1),
+    maxRequests: integer(1),
+    algorithm: optional(oneOf(['sliding-window', 'token-bucket']))
+  }),
+  security: objectOf({
+    csp: cspDirectives,
+    hstsMaxAge: integer(0)
+  })
+});
+
+const validateConfig = (config: unknown): Result<ServerConfig> => {
+  const problems = configSchema(config, '');
+
+  return problems.length === 0
+    ? { type: 'ok', value: config as ServerConfig }
+    : {
+      type: 'error',
+      error: new Error(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    };
+};
+
+// Values of keys that look like credentials are never printed
+const SECRET_KEY = /secret|token|password|passphrase|credential|api[-_]?key|private/i;
+
+const redactConfig = (value: unknown, key = ''): unknown => {
+  if (SECRET_KEY.test(key)) return '[redacted]';
+  if (Array.isArray(value)) return value.map(item => redactConfig(item));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, nested]) => [name, redactConfig(nested, name)])
+    );
+  }
+  return value;
+};
+
+const formatConfig = (config: ServerConfig): string =>
+  `Effective configuration:\n${JSON.stringify(redactConfig(config), null, 2)}`;
+
+// Layer defaults, config file, environment and overrides, then validate
+const loadConfig = (options: ConfigOptions = {}): Operation<ServerConfig> => ({
+  *[Symbol.iterator]() {
+    const env = options.env ?? (yield* compute('read-env', () => Deno.env.toObject()));
+    const file = options.file ?? env.CONFIG_FILE;
+
+    const fileLayer = file
+      ? yield* effect('read-config-file', async () => {
+        try {
+          return parseJsonc(await Deno.readTextFile(file));
+        } catch (error) {
+          throw new Error(`Cannot load config file ${file}: ${(error as Error).message}`);
+        }
+      })
+      : {};
+
+    if (!isPlainObject(fileLayer)) {
+      throw new Error(`Config file ${file} must contain an object`);
+    }
+
+    const config = yield* compute(
+      'merge-config',
+      () => mergeConfig(defaultConfig, fileLayer, readEnvConfig(env), options.overrides)
+    );
+
+    const result = yield* compute('validate-config', () => validateConfig(config));
+    if (result.type === 'error') {
+      throw result.error;
+    }
+
+    return result.value;
+  }
+});
+
+export {
+  defaultConfig,
+  describe,
+  formatConfig,
+  isPlainObject,
+  loadConfig,
+  mergeConfig,
+  readEnvConfig,
+  redactConfig,
+  validateConfig
+};
+export type { ConfigOptions, ConfigOverrides, ServerConfig };
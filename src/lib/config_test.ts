@@ -0,0 +1,104 @@
+// config_test.ts
+import { assertEquals, assertRejects } from "@std/assert";
+import { run } from "@effection/effection";
+import { defaultConfig, formatConfig, loadConfig, readEnvConfig, redactConfig, validateConfig } from "./config.ts";
+
+Deno.test("validateConfig accepts the defaults", () => {
+  assertEquals(validateConfig(defaultConfig), { type: "ok", value: defaultConfig });
+
+  // The rate limit algorithm may be left out
+  const { algorithm: _, ...rateLimits } = defaultConfig.rateLimits;
+  assertEquals(validateConfig({ ...defaultConfig, rateLimits }).type, "ok");
+});
+
+Deno.test("validateConfig lists every problem, nested fields included", () => {
+  const result = validateConfig({
+    ...defaultConfig,
+    port: 70000,
+    publicDir: "",
+    corsOrigins: ["https://example.com", 42],
+    rateLimits: { windowMs: "1m" },
+    security: { csp: { "default-src": ["'self'; evil"], "Bad Name": [] }, hstsMaxAge: -1 },
+    prot: 8000
+  });
+
+  assertEquals(result.type, "error");
+  assertEquals((result as { error: Error }).error.message, [
+    "Invalid configuration:",
+    "  - port: expected an integer between 0 and 65535, got 70000",
+    "  - publicDir: expected a non-empty string, got \"\"",
+    "  - corsOrigins[1]: expected a non-empty string, got 42",
+    "  - rateLimits.windowMs: expected an integer >= 1, got \"1m\"",
+    "  - rateLimits.maxRequests: expected an integer >= 1, got nothing",
+    "  - security.csp.default-src[0]: expected a source without whitespace, \";\" or \",\", got \"'self'; evil\"",
+    "  - security.csp: invalid directive name \"Bad Name\"",
+    "  - security.hstsMaxAge: expected an integer >= 0, got -1",
+    "  - prot: unknown setting"
+  ].join("\n"));
+});
+
+Deno.test("readEnvConfig maps variables onto nested settings", () => {
+  assertEquals(readEnvConfig({
+    PORT: "9000",
+    CORS_ORIGINS: "https://a.test, https://b.test",
+    RATE_LIMIT_MAX_REQUESTS: "10",
+    CSP: "default-src 'none'; img-src 'self' data:",
+    SHUTDOWN_TIMEOUT: "soon",
+    UNRELATED: "ignored"
+  }), {
+    port: 9000,
+    corsOrigins: ["https://a.test", "https://b.test"],
+    rateLimits: { maxRequests: 10 },
+    security: { csp: { "default-src": ["'none'"], "img-src": ["'self'", "data:"] } },
+    shutdownTimeout: "soon"
+  });
+});
+
+Deno.test("loadConfig layers defaults, file, environment and overrides", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".jsonc" });
+  await Deno.writeTextFile(file, `{
+    // Comments and trailing commas are allowed
+    "port": 3000,
+    "publicDir": "./static",
+    "rateLimits": { "maxRequests": 50 },
+  }`);
+
+  try {
+    const config = await run(() => loadConfig({
+      file,
+      env: { PORT: "4000", RATE_LIMIT_WINDOW_MS: "1000" },
+      overrides: { port: 5000, security: { hstsMaxAge: 0 } }
+    }));
+
+    assertEquals(config, {
+      ...defaultConfig,
+      port: 5000,
+      publicDir: "./static",
+      rateLimits: { windowMs: 1000, maxRequests: 50, algorithm: "sliding-window" },
+      security: { ...defaultConfig.security, hstsMaxAge: 0 }
+    });
+  } finally {
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("loadConfig replaces the CSP as a whole", async () => {
+  const config = await run(() => loadConfig({ env: { CSP: "default-src 'none'" } }));
+  assertEquals(config.security.csp, { "default-src": ["'none'"] });
+});
+
+Deno.test("loadConfig rejects invalid environment values", async () => {
+  await assertRejects(
+    () => run(() => loadConfig({ env: { PORT: "http" } })),
+    Error,
+    'port: expected an integer between 0 and 65535, got "http"'
+  );
+});
+
+Deno.test("redactConfig hides values of secret-looking keys", () => {
+  assertEquals(
+    redactConfig({ port: 8000, session: { secret: "s3cr3t", apiKey: "k" }, tokens: ["a"] }),
+    { port: 8000, session: { secret: "[redacted]", apiKey: "[redacted]" }, tokens: "[redacted]" }
+  );
+  assertEquals(formatConfig(defaultConfig).startsWith("Effective configuration:\n{"), true);
+});
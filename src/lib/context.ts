@@ -0,0 +1,77 @@
+import type { Params } from "./router.ts";
+
+// State bag shared by middleware and handlers for the lifetime of a request.
+// Apps declare typed keys through module augmentation:
+//
+//   declare module "./lib/context.ts" {
+//     interface RequestState { user?: User }
+//   }
+interface RequestState {
+  [key: string]: unknown;
+}
+
+type RequestContext<P extends Params = Params> = Readonly<{
+  id: string;
+  timestamp: number;
+  url: URL;
+  path: string;
+  method: string;
+  headers: Headers;
+  params: P;
+  query: Readonly<Record<string, string>>;
+  state: RequestState;
+  remoteAddr: Deno.NetAddr | null;
+}>;
+
+// Pure functions for building request contexts
+const parseQuery = (url: URL): Readonly<Record<string, string>> =>
+  Object.fromEntries(url.searchParams);
+
+const createRequestContext = (
+  req: Request,
+  remoteAddr: Deno.NetAddr | null = null
+): RequestContext => {
+  const url = new URL(req.url);
+
+  return {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    url,
+    path: url.pathname,
+    method: req.method,
+    headers: req.headers,
+    params: {},
+    query: parseQuery(url),
+    state: {},
+    remoteAddr
+  };
+};
+
+// Re-derive request-specific fields after a middleware rewrote the request;
+// id, timestamp, state and remote address stay with the original request
+const forRequest = <P extends Params>(
+  context: RequestContext<P>,
+  req: Request
+): RequestContext<P> => {
+  if (req.url === context.url.href && req.method === context.method && req.headers === context.headers) {
+    return context;
+  }
+
+  const url = new URL(req.url);
+  return {
+    ...context,
+    url,
+    path: url.pathname,
+    method: req.method,
+    headers: req.headers,
+    query: parseQuery(url)
+  };
+};
+
+const withParams = <P extends Params>(
+  context: RequestContext,
+  params: P
+): RequestContext<P> => ({ ...context, params });
+
+export { createRequestContext, forRequest, withParams };
+export type { RequestContext, RequestState };
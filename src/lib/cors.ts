@@ -0,0 +1,133 @@
+import type { Middleware } from "./middleware.ts";
+import { escapeRegExp } from "./routes.ts";
+
+// Exact origins, "*" for any origin, "https://*.example.com" for any
+// subdomain, "/regex/" strings from config files, or RegExps
+type CorsOrigin = string | RegExp;
+
+type CorsOptions = Readonly<{
+  origins: readonly CorsOrigin[];
+  credentials?: boolean;
+  // Request headers allowed in preflights; reflects the requested ones if unset
+  allowedHeaders?: readonly string[];
+  exposedHeaders?: readonly string[];
+  // Seconds browsers may cache a preflight response
+  maxAge?: number;
+  // Methods registered for a path, used to answer preflights
+  allowedMethods?: (path: string) => readonly string[];
+}>;
+
+const DEFAULT_METHODS = ['DELETE', 'GET', 'HEAD', 'PATCH', 'POST', 'PUT'];
+
+// Strings written as "/pattern/flags" in config files are regular expressions
+const parseRegExpOrigin = (origin: string): RegExp | null => {
+  const match = /^\/(.+)\/([a-z]*)$/.exec(origin);
+  return match ? new RegExp(match[1], match[2]) : null;
+};
+
+// Compile an origin list into a predicate
+const compileOrigins = (origins: readonly CorsOrigin[]): (origin: string) => boolean => {
+  const matchers = origins.map((origin): (candidate: string) => boolean => {
+    if (origin instanceof RegExp) {
+      // Stateful flags would make `test` depend on previous calls
+      const regExp = new RegExp(origin.source, origin.flags.replace(/[gy]/g, ''));
+      return (candidate) => regExp.test(candidate);
+    }
+
+    const regExp = parseRegExpOrigin(origin);
+    if (regExp) return (candidate) => regExp.test(candidate);
+
+    if (origin === '*') return () => true;
+
+    const normalized = origin.replace(/\/+$/, '').toLowerCase();
+    if (normalized.includes('*')) {
+      // A wildcard stands for one or more subdomain labels
+      const pattern = normalized.split('*').map(escapeRegExp).join('[a-z0-9-]+(?:\\.[a-z0-9-]+)*');
+      const wildcard = new RegExp(`^${pattern}$`);
+      return (candidate) => wildcard.test(candidate.toLowerCase());
+    }
+
+    return (candidate) => candidate.toLowerCase() === normalized;
+  });
+
+  return (origin) => matchers.some(matches => matches(origin));
+};
+
+const appendVary = (headers: Headers, ...names: string[]) => {
+  const vary = new Set(
+    (headers.get('Vary') ?? '').split(',').map(name => name.trim()).filter(name => name.length > 0)
+  );
+  names.forEach(name => vary.add(name));
+  headers.set('Vary', [...vary].join(', '));
+};
+
+// CORS headers for actual requests and automatic preflight responses
+const cors = (options: CorsOptions): Middleware => {
+  const {
+    origins,
+    credentials = false,
+    allowedHeaders,
+    exposedHeaders = [],
+    maxAge,
+    allowedMethods = () => DEFAULT_METHODS
+  } = options;
+  const isAllowed = compileOrigins(origins);
+  // "*" can only be sent as is for requests without credentials
+  const anyOrigin = !credentials && origins.includes('*');
+
+  const allowOrigin = (headers: Headers, origin: string) => {
+    headers.set('Access-Control-Allow-Origin', anyOrigin ? '*' : origin);
+    if (credentials) {
+      headers.set('Access-Control-Allow-Credentials', 'true');
+    }
+  };
+
+  return function* (req, next, context) {
+    const origin = req.headers.get('Origin');
+    const requestedMethod = req.headers.get('Access-Control-Request-Method');
+
+    // Preflight: answered here from the methods registered for the path
+    if (req.method === 'OPTIONS' && origin !== null && requestedMethod !== null) {
+      const methods = allowedMethods(context.path);
+      if (methods.length === 0) return yield* next();
+
+      const headers = new Headers();
+      appendVary(headers, 'Origin', 'Access-Control-Request-Method', 'Access-Control-Request-Headers');
+
+      if (isAllowed(origin)) {
+        allowOrigin(headers, origin);
+        headers.set('Access-Control-Allow-Methods', methods.join(', '));
+
+        const requestedHeaders = req.headers.get('Access-Control-Request-Headers');
+        const headerList = allowedHeaders?.join(', ') ?? requestedHeaders;
+        if (headerList) {
+          headers.set('Access-Control-Allow-Headers', headerList);
+        }
+        if (maxAge !== undefined) {
+          headers.set('Access-Control-Max-Age', String(maxAge));
+        }
+      }
+
+      return new Response(null, { status: 204, headers });
+    }
+
+    const response = yield* next();
+    const corsResponse = new Response(response.body, response);
+
+    if (!anyOrigin) {
+      appendVary(corsResponse.headers, 'Origin');
+    }
+
+    if (origin !== null && isAllowed(origin)) {
+      allowOrigin(corsResponse.headers, origin);
+      if (exposedHeaders.length > 0) {
+        corsResponse.headers.set('Access-Control-Expose-Headers', exposedHeaders.join(', '));
+      }
+    }
+
+    return corsResponse;
+  };
+};
+
+export { compileOrigins, cors, parseRegExpOrigin };
+export type { CorsOptions, CorsOrigin };
@@ -0,0 +1,112 @@
+// cors_test.ts
+import { assertEquals } from "@std/assert";
+import { compileOrigins } from "./cors.ts";
+import { UnauthorizedError } from "./errors.ts";
+import type { Middleware } from "./middleware.ts";
+import { del, get, patch } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+const routes = [
+  get("/items", () => new Response("items", { headers: { "X-Total": "1" } })),
+  get("/items/:id", () => new Response("item")),
+  patch("/items/:id", () => new Response("patched")),
+  del("/items/:id", () => new Response(null, { status: 204 }))
+];
+
+Deno.test("compileOrigins matches exact, wildcard and regex origins", () => {
+  const isAllowed = compileOrigins([
+    "https://app.example.com/",
+    "https://*.example.org",
+    "/^http:\\/\\/localhost:\\d+$/",
+    /^https:\/\/preview-\d+\.example\.net$/g
+  ]);
+
+  assertEquals(isAllowed("https://APP.example.com"), true);
+  assertEquals(isAllowed("https://evil.example.com"), false);
+  assertEquals(isAllowed("https://a.b.example.org"), true);
+  assertEquals(isAllowed("https://example.org"), false);
+  assertEquals(isAllowed("https://evilexample.org"), false);
+  assertEquals(isAllowed("http://localhost:3000"), true);
+  assertEquals(isAllowed("https://preview-1.example.net"), true);
+  assertEquals(isAllowed("https://preview-1.example.net"), true);
+});
+
+Deno.test("cors reflects one matching origin", async () => {
+  const client = createTestClient(routes, { corsOrigins: ["https://a.test", "https://b.test"] }, {
+    cors: { exposedHeaders: ["X-Total"] }
+  });
+
+  const allowed = await client.get("/items", { headers: { Origin: "https://b.test" } });
+  assertEquals(await allowed.text(), "items");
+  assertEquals(allowed.headers.get("Access-Control-Allow-Origin"), "https://b.test");
+  assertEquals(allowed.headers.get("Access-Control-Expose-Headers"), "X-Total");
+  assertEquals(allowed.headers.get("Vary"), "Origin, Accept-Encoding");
+
+  const denied = await client.get("/items", { headers: { Origin: "https://evil.test" } });
+  await denied.body?.cancel();
+  assertEquals(denied.headers.get("Access-Control-Allow-Origin"), null);
+});
+
+Deno.test("cors headers reach errors thrown by middleware", async () => {
+  const requireToken: Middleware = (req, next) => {
+    if (!req.headers.has("Authorization")) throw new UnauthorizedError("Missing token");
+    return next();
+  };
+  const client = createTestClient(routes, { corsOrigins: ["https://a.test"] }, { middleware: [requireToken] });
+
+  const rejected = await client.get("/items", { headers: { Origin: "https://a.test" } });
+  assertEquals(rejected.status, 401);
+  assertEquals(rejected.headers.get("Access-Control-Allow-Origin"), "https://a.test");
+  assertEquals(rejected.headers.get("Content-Type"), "application/problem+json");
+  assertEquals((await rejected.json()).detail, "Missing token");
+});
+
+Deno.test("cors answers preflights from the methods registered for the path", async () => {
+  const client = createTestClient(routes, { corsOrigins: ["https://a.test"] }, {
+    cors: { credentials: true, maxAge: 600 }
+  });
+
+  const preflight = await client.options("/items/42", {
+    headers: {
+      Origin: "https://a.test",
+      "Access-Control-Request-Method": "PATCH",
+      "Access-Control-Request-Headers": "content-type, authorization"
+    }
+  });
+
+  assertEquals(preflight.status, 204);
+  assertEquals(preflight.headers.get("Access-Control-Allow-Origin"), "https://a.test");
+  assertEquals(preflight.headers.get("Access-Control-Allow-Credentials"), "true");
+  assertEquals(preflight.headers.get("Access-Control-Allow-Methods"), "DELETE, GET, HEAD, PATCH");
+  assertEquals(preflight.headers.get("Access-Control-Allow-Headers"), "content-type, authorization");
+  assertEquals(preflight.headers.get("Access-Control-Max-Age"), "600");
+  assertEquals(preflight.headers.get("Content-Security-Policy"), "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'");
+  assertEquals(preflight.headers.get("Strict-Transport-Security"), "max-age=31536000; includeSubDomains");
+  assertEquals(preflight.headers.get("X-Frame-Options"), "DENY");
+  assertEquals(preflight.headers.get("X-Content-Type-Options"), "nosniff");
+
+  const unknownPath = await client.options("/nothing", {
+    headers: { Origin: "https://a.test", "Access-Control-Request-Method": "GET" }
+  });
+  await unknownPath.body?.cancel();
+  assertEquals(unknownPath.status, 404);
+});
+
+Deno.test("cors sends a literal wildcard only without credentials", async () => {
+  const anyOrigin = createTestClient(routes, { corsOrigins: ["*"] });
+  const res = await anyOrigin.get("/items", { headers: { Origin: "https://x.test" } });
+  await res.body?.cancel();
+  assertEquals(res.headers.get("Access-Control-Allow-Origin"), "*");
+  assertEquals(res.headers.get("Vary"), "Accept-Encoding");
+
+  const withCredentials = createTestClient(routes, { corsOrigins: ["*"] }, { cors: { credentials: true } });
+  const reflected = await withCredentials.get("/items", { headers: { Origin: "https://x.test" } });
+  await reflected.body?.cancel();
+  assertEquals(reflected.headers.get("Access-Control-Allow-Origin"), "https://x.test");
+});
+
+Deno.test("OPTIONS without CORS lists the allowed methods", async () => {
+  const res = await createTestClient(routes).options("/items");
+  assertEquals(res.status, 204);
+  assertEquals(res.headers.get("Allow"), "GET, HEAD, OPTIONS");
+});
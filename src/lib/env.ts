@@ -1,10 +0,0 @@
-import { cleanEnv, num, str } from "envalid";
-
-export function validateEnv(env: Record<string, any>) {
-  return cleanEnv(env, {
-    port: num(),
-    env: str({ choices: ["development", "production"] }),
-    publicDir: str(),
-    shutdownTimeout: num(),
-  });
-}
\ No newline at end of file
@@ -0,0 +1,364 @@
+import * as path from "@std/path";
+import { Operation, effect, toOperation, type MaybeOperation } from "./higherEffection.ts";
+import type { RequestContext } from "./context.ts";
+
+type HttpErrorOptions = Readonly<{
+  // URI identifying the problem type; "about:blank" when the status says it all
+  type?: string;
+  title?: string;
+  // Sent with the response, e.g. `Retry-After` or `Allow`
+  headers?: HeadersInit;
+  // Extra members of the problem document
+  extensions?: Readonly<Record<string, unknown>>;
+  cause?: unknown;
+}>;
+
+const STATUS_TITLES: Readonly<Record<number, string>> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  406: 'Not Acceptable',
+  409: 'Conflict',
+  410: 'Gone',
+  413: 'Content Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+// Errors handlers can throw to end a request with a given status.
+// Messages of 4xx errors are shown to clients; 5xx messages only in development.
+class HttpError extends Error {
+  readonly type: string;
+  readonly title: string;
+  readonly headers: Headers;
+  readonly extensions: Readonly<Record<string, unknown>>;
+
+  constructor(readonly status: number, message?: string, options: HttpErrorOptions = {}) {
+    const title = options.title ?? STATUS_TITLES[status] ?? `HTTP ${status}`;
+    super(message ?? title, { cause: options.cause });
+    this.name = 'HttpError';
+    this.type = options.type ?? 'about:blank';
+    this.title = title;
+    this.headers = new Headers(options.headers);
+    this.extensions = options.extensions ?? {};
+  }
+}
+
+// One class per common status, so handlers read as `throw new NotFoundError(...)`
+class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+    this.name = 'BadRequestError';
+  }
+}
+
+class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+class MethodNotAllowedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(405, message, options);
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+class NotAcceptableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(406, message, options);
+    this.name = 'NotAcceptableError';
+  }
+}
+
+class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+    this.name = 'ConflictError';
+  }
+}
+
+class GoneError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(410, message, options);
+    this.name = 'GoneError';
+  }
+}
+
+class PayloadTooLargeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(413, message, options);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+class UnsupportedMediaTypeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(415, message, options);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+class UnprocessableEntityError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+    this.name = 'UnprocessableEntityError';
+  }
+}
+
+class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(429, message, options);
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+    this.name = 'InternalServerError';
+  }
+}
+
+class NotImplementedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(501, message, options);
+    this.name = 'NotImplementedError';
+  }
+}
+
+class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(503, message, options);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+class GatewayTimeoutError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(504, message, options);
+    this.name = 'GatewayTimeoutError';
+  }
+}
+
+// RFC 9457 problem details, plus the request id for support requests
+type Problem = Readonly<{
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance: string;
+  requestId: string;
+  stack?: string;
+  [extension: string]: unknown;
+}>;
+
+// Renders a problem for a status instead of the JSON document; returning null
+// falls back to it
+type ErrorPage = (
+  problem: Problem,
+  req: Request,
+  context: RequestContext
+) => MaybeOperation<Response | null>;
+
+// Renders an HTML page for a problem; returning null falls back to the JSON document
+type ErrorTemplate = (
+  problem: Problem,
+  req: Request,
+  context: RequestContext
+) => MaybeOperation<string | Response | null>;
+
+// What clients preferring HTML get: "<status>.html" from a directory, a
+// template, or `false` for the JSON document
+type HtmlErrors = Readonly<{ dir: string }> | ErrorTemplate | false;
+
+// Settings a route or group can override
+type RouteErrorOptions = Readonly<{
+  // Custom pages keyed by status code, used whatever the client accepts
+  pages?: Readonly<Record<number, ErrorPage>>;
+  html?: HtmlErrors;
+}>;
+
+type ErrorOptions = RouteErrorOptions & Readonly<{
+  // Translate application errors, e.g. a unique constraint violation into a
+  // ConflictError; return nothing to use the default mapping
+  map?: (error: unknown, context: RequestContext) => HttpError | Response | null | undefined;
+}>;
+
+// Anything that is not an HttpError is an unexpected failure
+const toHttpError = (error: unknown): HttpError =>
+  error instanceof HttpError
+    ? error
+    : new InternalServerError(error instanceof Error ? error.message : String(error), { cause: error });
+
+const createProblem = (error: HttpError, context: RequestContext, env: string): Problem => {
+  const development = env === 'development';
+  const cause = error.cause instanceof Error ? error.cause : error;
+
+  return {
+    ...error.extensions,
+    type: error.type,
+    title: error.title,
+    status: error.status,
+    ...(error.message !== error.title && (error.status < 500 || development) ? { detail: error.message } : {}),
+    instance: context.path,
+    requestId: context.id,
+    ...(development && cause.stack ? { stack: cause.stack } : {})
+  };
+};
+
+const problemResponse = (problem: Problem, headers: HeadersInit = {}): Response => {
+  const response = new Response(JSON.stringify(problem), { status: problem.status, headers });
+  response.headers.set('Content-Type', 'application/problem+json');
+  return response;
+};
+
+type ErrorHandler = (
+  error: unknown,
+  req: Request,
+  context: RequestContext,
+  overrides?: RouteErrorOptions
+) => Operation<Response>;
+
+const mediaRangeQuality = (accept: string, type: string): number => {
+  const range = accept.split(',')
+    .map(part => part.trim().toLowerCase().split(';').map(param => param.trim()))
+    .find(([mediaType]) => mediaType === type);
+  if (!range) return 0;
+
+  const q = range.find(param => param.startsWith('q='));
+  return q ? Number(q.slice(2)) || 0 : 1;
+};
+
+// Browsers list text/html first; API clients ask for JSON or anything
+const prefersHtml = (req: Request): boolean => {
+  const accept = req.headers.get('Accept') ?? '';
+  const html = mediaRangeQuality(accept, 'text/html');
+  return html > 0 &&
+    html > mediaRangeQuality(accept, 'application/json') &&
+    html > mediaRangeQuality(accept, 'application/problem+json');
+};
+
+const htmlResponse = (html: string): Response =>
+  new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+const renderHtml = (
+  html: HtmlErrors,
+  problem: Problem,
+  req: Request,
+  context: RequestContext
+): Operation<Response | null> => ({
+  *[Symbol.iterator]() {
+    if (html === false) return null;
+
+    if (typeof html === 'function') {
+      const rendered = yield* toOperation(html(problem, req, context));
+      return typeof rendered === 'string' ? htmlResponse(rendered) : rendered;
+    }
+
+    try {
+      const page = yield* effect(
+        'read-error-page',
+        () => Deno.readTextFile(path.join(html.dir, `${problem.status}.html`))
+      );
+      return htmlResponse(page);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+});
+
+// The central mapping from thrown errors to responses. Unexpected errors are
+// logged; HttpErrors are part of normal operation and are not. Custom pages
+// come first, then HTML for clients preferring it, then the JSON document.
+const createErrorHandler = (env: string, options: ErrorOptions = {}): ErrorHandler =>
+  (error, req, context, overrides = {}) => ({
+    *[Symbol.iterator]() {
+      const mapped = options.map?.(error, context) ?? error;
+      if (mapped instanceof Response) return mapped;
+
+      const httpError = toHttpError(mapped);
+      if (httpError.status >= 500) {
+        console.error(`Request ${context.id} failed:`, error);
+      }
+
+      const problem = createProblem(httpError, context, env);
+      const page = overrides.pages?.[problem.status] ?? options.pages?.[problem.status];
+      const html = overrides.html ?? options.html ?? false;
+
+      let rendered = page ? yield* toOperation(page(problem, req, context)) : null;
+      if (!rendered && prefersHtml(req)) {
+        // A broken error page must not hide the original error
+        try {
+          rendered = yield* renderHtml(html, problem, req, context);
+        } catch (renderError) {
+          console.error(`Request ${context.id}: error page failed:`, renderError);
+        }
+      }
+      if (!rendered) return problemResponse(problem, httpError.headers);
+
+      // Pages always carry the problem's status
+      const response = new Response(rendered.body, { status: problem.status, headers: rendered.headers });
+      httpError.headers.forEach((value, key) => response.headers.set(key, value));
+      return response;
+    }
+  });
+
+export {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  GatewayTimeoutError,
+  GoneError,
+  HttpError,
+  InternalServerError,
+  MethodNotAllowedError,
+  NotAcceptableError,
+  NotFoundError,
+  NotImplementedError,
+  PayloadTooLargeError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  UnauthorizedError,
+  UnprocessableEntityError,
+  UnsupportedMediaTypeError,
+  createErrorHandler,
+  createProblem,
+  prefersHtml,
+  problemResponse,
+  toHttpError
+};
+export type {
+  ErrorHandler,
+  ErrorOptions,
+  ErrorPage,
+  ErrorTemplate,
+  HtmlErrors,
+  HttpErrorOptions,
+  Problem,
+  RouteErrorOptions
+};
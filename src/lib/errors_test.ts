@@ -0,0 +1,174 @@
+// errors_test.ts
+import { assertEquals } from "@std/assert";
+import { run } from "@effection/effection";
+import { readText } from "./body.ts";
+import { createRequestContext } from "./context.ts";
+import {
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  InternalServerError,
+  NotFoundError,
+  createErrorHandler,
+  prefersHtml
+} from "./errors.ts";
+import { get, group, post, withErrorPages } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+class DuplicateKey extends Error {}
+
+const req = new Request("http://localhost/items/1");
+const context = createRequestContext(req);
+
+Deno.test("HttpErrors become problem+json with the request id", async () => {
+  const response = await run(() =>
+    createErrorHandler("production")(new NotFoundError("Item 1 not found"), req, context)
+  );
+
+  assertEquals(response.status, 404);
+  assertEquals(response.headers.get("Content-Type"), "application/problem+json");
+  assertEquals(await response.json(), {
+    type: "about:blank",
+    title: "Not Found",
+    status: 404,
+    detail: "Item 1 not found",
+    instance: "/items/1",
+    requestId: context.id
+  });
+});
+
+Deno.test("unexpected errors only show details and stacks in development", async () => {
+  const error = new Error("connection refused");
+  const production = await run(() => createErrorHandler("production")(error, req, context));
+  assertEquals(await production.json(), {
+    type: "about:blank",
+    title: "Internal Server Error",
+    status: 500,
+    instance: "/items/1",
+    requestId: context.id
+  });
+
+  const development = await (await run(() => createErrorHandler("development")(error, req, context))).json();
+  assertEquals(development.detail, "connection refused");
+  assertEquals(development.stack, error.stack);
+});
+
+Deno.test("the map hook translates application errors", async () => {
+  const handleError = createErrorHandler("production", {
+    map: (error) => error instanceof DuplicateKey
+      ? new ConflictError("Item already exists", { extensions: { field: "name" } })
+      : null
+  });
+
+  const conflict = await run(() => handleError(new DuplicateKey(), req, context));
+  assertEquals(conflict.status, 409);
+  const { detail, field } = await conflict.json();
+  assertEquals([detail, field], ["Item already exists", "name"]);
+});
+
+Deno.test("handlers throw HttpErrors; routing errors and pages use the same mapping", async () => {
+  let attempts = 0;
+  const client = createTestClient([
+    get("/items/:id", () => {
+      attempts++;
+      throw new HttpError(503, "Maintenance", { headers: { "Retry-After": "60" } });
+    }),
+    post("/items", async (req) => {
+      await readText(req);
+      throw new InternalServerError("Database unavailable");
+    })
+  ], {}, {
+    errors: {
+      pages: {
+        404: (problem) => new Response(`<h1>${problem.title}</h1>`, { headers: { "Content-Type": "text/html" } })
+      }
+    }
+  });
+
+  const unavailable = await client.get("/items/1");
+  assertEquals(unavailable.status, 503);
+  assertEquals(unavailable.headers.get("Retry-After"), "60");
+  assertEquals((await unavailable.json()).title, "Service Unavailable");
+  assertEquals(attempts, 1);
+
+  const missing = await client.get("/nothing");
+  assertEquals(missing.status, 404);
+  assertEquals(await missing.text(), "<h1>Not Found</h1>");
+
+  const wrongMethod = await client.delete("/items");
+  assertEquals(wrongMethod.status, 405);
+  assertEquals(wrongMethod.headers.get("Allow"), "POST");
+  assertEquals((await wrongMethod.json()).title, "Method Not Allowed");
+
+  const tooLarge = await client.post("/items", { body: "x".repeat(2_000_000) });
+  assertEquals(tooLarge.status, 413);
+  assertEquals((await tooLarge.json()).detail, "Request body exceeds 1048576 bytes");
+
+  const failed = await client.post("/items", { body: "{}" });
+  assertEquals(failed.status, 500);
+  assertEquals((await failed.json()).detail, undefined);
+});
+
+const browser = { headers: { Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8" } };
+
+Deno.test("prefersHtml only picks HTML when it beats JSON", () => {
+  const accepts = (accept: string) => prefersHtml(new Request("http://localhost/", { headers: { Accept: accept } }));
+
+  assertEquals(accepts(browser.headers.Accept), true);
+  assertEquals(accepts("*/*"), false);
+  assertEquals(accepts("application/json, text/html"), false);
+  assertEquals(accepts("text/html;q=0.5, application/problem+json"), false);
+  assertEquals(accepts("text/html;q=0"), false);
+  assertEquals(prefersHtml(new Request("http://localhost/")), false);
+});
+
+Deno.test("browsers get error pages from the public directory, API clients get problems", async () => {
+  const publicDir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${publicDir}/404.html`, "<h1>Lost</h1>");
+  await Deno.writeTextFile(`${publicDir}/403.html`, "<h1>Keep out</h1>");
+
+  try {
+    const client = createTestClient([
+      get("/private", () => {
+        throw new ForbiddenError();
+      }),
+      ...group("/api", [
+        get("/private", () => {
+          throw new ForbiddenError();
+        }),
+        withErrorPages(get("/teapot", () => {
+          throw new HttpError(418, "Short and stout");
+        }), { html: (problem) => `<p>${problem.detail}</p>` })
+      ], { errors: { html: false } })
+    ], { publicDir });
+
+    const lost = await client.get("/nothing", browser);
+    assertEquals(lost.status, 404);
+    assertEquals(lost.headers.get("Content-Type"), "text/html; charset=utf-8");
+    assertEquals(await lost.text(), "<h1>Lost</h1>");
+
+    const forbidden = await client.get("/private", browser);
+    assertEquals(forbidden.status, 403);
+    assertEquals(await forbidden.text(), "<h1>Keep out</h1>");
+
+    // Statuses without a page fall back to the problem document
+    const wrongMethod = await client.post("/private", browser);
+    assertEquals(wrongMethod.status, 405);
+    assertEquals(wrongMethod.headers.get("Content-Type"), "application/problem+json");
+
+    const api = await client.get("/nothing", { headers: { Accept: "application/json" } });
+    assertEquals(api.status, 404);
+    assertEquals((await api.json()).title, "Not Found");
+
+    const grouped = await client.get("/api/private", browser);
+    assertEquals(grouped.status, 403);
+    assertEquals(grouped.headers.get("Content-Type"), "application/problem+json");
+    await grouped.body?.cancel();
+
+    const teapot = await client.get("/api/teapot", browser);
+    assertEquals(teapot.status, 418);
+    assertEquals(await teapot.text(), "<p>Short and stout</p>");
+  } finally {
+    await Deno.remove(publicDir, { recursive: true });
+  }
+});
@@ -0,0 +1,55 @@
+// Entries that expire after a TTL, for in-memory stores. Expired entries are
+// never returned and are swept at most once per `sweepIntervalMs`; beyond
+// `maxKeys` the least recently set keys are dropped.
+type ExpiringMapOptions = Readonly<{
+  maxKeys?: number;
+  sweepIntervalMs?: number;
+  now?: () => number;
+}>;
+
+type ExpiringMap<V> = Readonly<{
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V, ttlMs: number) => void;
+  delete: (key: string) => void;
+  size: () => number;
+}>;
+
+const createExpiringMap = <V>(options: ExpiringMapOptions = {}): ExpiringMap<V> => {
+  const { maxKeys = Infinity, sweepIntervalMs = 60_000, now = Date.now } = options;
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < sweepIntervalMs) return;
+    lastSweep = time;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= time) entries.delete(key);
+    }
+  };
+
+  return {
+    get: (key) => {
+      const time = now();
+      sweep(time);
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= time) return undefined;
+      return entry.value;
+    },
+    set: (key, value, ttlMs) => {
+      // Re-inserting keeps the map ordered from least to most recently set
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxKeys) break;
+        entries.delete(oldest);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    size: () => entries.size
+  };
+};
+
+export { createExpiringMap };
+export type { ExpiringMap, ExpiringMapOptions };
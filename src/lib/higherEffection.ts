@@ -1,4 +1,18 @@
-import { main, call as effectionCall, createChannel, resource, race, sleep, spawn, type Operation } from "jsr:@effection/effection";
+import {
+  main,
+  run,
+  action,
+  call as effectionCall,
+  createChannel,
+  resource,
+  race,
+  sleep,
+  spawn,
+  suspend,
+  useScope,
+  type Operation,
+  type Task as EffectionTask
+} from "@effection/effection";
 
 // Higher-level types to abstract low-level details
 type Task<T> = {
@@ -20,40 +34,47 @@ type Subscription<T> = {
   return: () => Operation<void>;
 };
 
-// Internal utility to auto-wrap functions in `call`
-const autoCall = <T>(fn: () => T | Promise<T> | Operation<T>): Operation<T> => {
-  const wrappedFn = () => {
-    const result = fn();
-    if (result instanceof Promise) {
-      return result; // Return the Promise as-is
-    } else if (typeof (result as Operation<T>)[Symbol.iterator] === 'function') {
-      return result; // Return the Operation as-is
-    } else {
-      return Promise.resolve(result); // Wrap plain values in a Promise
-    }
-  };
-  return effectionCall(wrappedFn);
-};
+type Result<T> =
+  | { readonly type: 'ok'; readonly value: T }
+  | { readonly type: 'error'; readonly error: Error };
 
-// Core helpers for creating operations
-const compute = <T>(description: string, fn: () => T): Operation<T> => ({
-  *[Symbol.iterator]() {
-    return yield { type: 'computation', execute: () => autoCall(fn), description }; // Auto-wrap in `call`
-  }
-});
+// Values that can be lifted into an Operation
+type MaybeOperation<T> = T | Promise<T> | Operation<T>;
+
+// Internal utility to auto-wrap functions in `call`. Effection resolves
+// Promises, runs Operations and passes plain values through unchanged.
+const autoCall = <T>(fn: () => MaybeOperation<T>): Operation<T> =>
+  effectionCall(fn) as Operation<T>;
 
-const effect = <T>(description: string, fn: () => Promise<T>): Operation<T> => ({
+// Lift a plain value, Promise or Operation into an Operation
+const toOperation = <T>(value: MaybeOperation<T>): Operation<T> =>
+  autoCall(() => value);
+
+// Capture the outcome of an operation instead of letting it throw
+const settle = <T>(operation: Operation<T>): Operation<Result<T>> => ({
   *[Symbol.iterator]() {
-    return yield { type: 'effect', execute: () => autoCall(fn), description }; // Auto-wrap in `call`
+    try {
+      return { type: 'ok', value: yield* operation };
+    } catch (err) {
+      return { type: 'error', error: err instanceof Error ? err : new Error(String(err)) };
+    }
   }
 });
 
+// Core helpers for creating operations. Descriptions document each step at
+// the call site; pure computations may still return a Promise or Operation.
+const compute = <T>(_description: string, fn: () => T): Operation<Awaited<T>> =>
+  autoCall(fn as () => MaybeOperation<Awaited<T>>);
+
+const effect = <T>(_description: string, fn: () => Promise<T>): Operation<T> =>
+  autoCall(fn);
+
 // Declarative resource management using Effection's `resource`
 const useResource = <T>(
   acquire: () => Operation<T>,
   release: (resource: T) => Operation<void>
 ): Operation<T> => resource(function* (provide) {
-  const resource = yield* acquire;
+  const resource = yield* acquire();
   try {
     yield* provide(resource);
   } finally {
@@ -85,6 +106,10 @@ type RetryConfig = {
   readonly initialDelay: number;
   readonly maxDelay: number;
   readonly backoffFactor: number;
+  // Fraction of each delay that is randomised, from 0 to 1
+  readonly jitter: number;
+  // Errors rejected here are rethrown at once
+  readonly shouldRetry: (error: unknown) => boolean;
 };
 
 const withRetry = <T>(
@@ -97,6 +122,8 @@ const withRetry = <T>(
       initialDelay: 1000,
       maxDelay: 30000,
       backoffFactor: 2,
+      jitter: 0,
+      shouldRetry: () => true,
       ...config
     };
 
@@ -107,6 +134,8 @@ const withRetry = <T>(
       try {
         return yield* operation;
       } catch (err) {
+        if (!finalConfig.shouldRetry(err)) throw err;
+
         lastError = err instanceof Error ? err : new Error(String(err));
         attempt++;
 
@@ -124,10 +153,8 @@ const withRetry = <T>(
             finalConfig.maxDelay
           );
 
-          yield* effect(
-            'delay-before-retry',
-            () => new Promise(resolve => setTimeout(resolve, delay))
-          );
+          // Halted with the caller, unlike a bare timer
+          yield* sleep(delay * (1 - finalConfig.jitter * Math.random()));
         }
       }
     }
@@ -142,22 +169,43 @@ const withTimeout = <T>(
   timeoutMs: number
 ): Operation<T> => ({
   *[Symbol.iterator]() {
-    const timeoutPromise = yield* effect(
-      'create-timeout',
-      () => new Promise((_, reject) =>
-        setTimeout(() => reject(new Error(`Operation timed out after ${timeoutMs}ms`)), timeoutMs)
-      )
-    );
-
-    return yield* race([operation, timeoutPromise]);
+    const timeout: Operation<never> = {
+      *[Symbol.iterator]() {
+        yield* sleep(timeoutMs);
+        throw new Error(`Operation timed out after ${timeoutMs}ms`);
+      }
+    };
+
+    return yield* race([operation, timeout]);
   }
 });
 
+// Completes once the signal aborts; resolves undefined so it can be raced
+const waitForAbort = (signal: AbortSignal): Operation<undefined> =>
+  action(function* (resolve) {
+    if (signal.aborted) {
+      resolve(undefined);
+      return;
+    }
+
+    const listener = () => resolve(undefined);
+    signal.addEventListener('abort', listener, { once: true });
+    try {
+      yield* suspend();
+    } finally {
+      signal.removeEventListener('abort', listener);
+    }
+  });
+
 // New parallel utility to run multiple operations concurrently
 const parallel = <T>(operations: Operation<T>[]): Operation<T[]> => ({
   *[Symbol.iterator]() {
-    const tasks = operations.map(op => spawn(op));
-    const results = [];
+    const tasks: Operation<T>[] = [];
+    for (const operation of operations) {
+      tasks.push(yield* spawn(() => operation));
+    }
+
+    const results: T[] = [];
     for (const task of tasks) {
       results.push(yield* task);
     }
@@ -168,20 +216,33 @@ const parallel = <T>(operations: Operation<T>[]): Operation<T[]> => ({
 // Export our main functions and types
 export {
   main,
+  run,
+  action,
+  suspend,
   compute,
   effect,
   useResource,
   withErrorBoundary,
   withRetry,
   withTimeout,
+  waitForAbort,
   parallel,
+  toOperation,
+  settle,
   createChannel,
   race,
-  sleep
+  resource,
+  sleep,
+  spawn,
+  useScope
 };
 
 export type {
   Operation,
+  RetryConfig,
+  EffectionTask,
+  MaybeOperation,
+  Result,
   Task,
   Resource,
   Stream,
@@ -0,0 +1,76 @@
+// higherEffection_test.ts
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  compute,
+  effect,
+  race,
+  run,
+  sleep,
+  toOperation,
+  waitForAbort,
+  withTimeout
+} from "./higherEffection.ts";
+
+Deno.test("compute and effect execute their steps", async () => {
+  const result = await run(function* () {
+    const base = yield* compute('base', () => 20);
+    const doubled = yield* effect('double', () => Promise.resolve(base * 2));
+    return yield* compute('add', () => doubled + 2);
+  });
+
+  assertEquals(result, 42);
+});
+
+Deno.test("compute passes iterable values through untouched", async () => {
+  const map = await run(() => compute('map', () => new Map([["a", 1]])));
+  assertEquals(map.get("a"), 1);
+});
+
+Deno.test("toOperation lifts values, promises and operations", async () => {
+  const results = await run(function* () {
+    return [
+      yield* toOperation(1),
+      yield* toOperation(Promise.resolve(2)),
+      yield* toOperation(compute('three', () => 3))
+    ];
+  });
+
+  assertEquals(results, [1, 2, 3]);
+});
+
+Deno.test("withTimeout fails slow operations and halts them", async () => {
+  let finished = false;
+  const slow = {
+    *[Symbol.iterator]() {
+      yield* sleep(1000);
+      finished = true;
+      return "late";
+    }
+  };
+
+  await assertRejects(() => run(() => withTimeout(slow, 10)), Error, "timed out after 10ms");
+  assertEquals(finished, false);
+  assertEquals(await run(() => withTimeout(compute('fast', () => "ok"), 100)), "ok");
+});
+
+Deno.test("waitForAbort halts raced work when the signal aborts", async () => {
+  const controller = new AbortController();
+  const cleanup: string[] = [];
+  const work = {
+    *[Symbol.iterator]() {
+      try {
+        yield* sleep(1000);
+        return "done";
+      } finally {
+        cleanup.push("released");
+      }
+    }
+  };
+
+  setTimeout(() => controller.abort(), 10);
+  const result = await run(() => race([work, waitForAbort(controller.signal)]));
+
+  assertEquals(result, undefined);
+  assertEquals(cleanup, ["released"]);
+  assertEquals(await run(() => waitForAbort(AbortSignal.abort())), undefined);
+});
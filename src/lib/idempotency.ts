@@ -0,0 +1,193 @@
+import { Operation, effect, toOperation, type MaybeOperation } from "./higherEffection.ts";
+import type { Middleware } from "./middleware.ts";
+import type { RequestContext } from "./context.ts";
+import { readBytes } from "./body.ts";
+import { defaultConfig } from "./config.ts";
+import { createExpiringMap, type ExpiringMapOptions } from "./expiringMap.ts";
+import { ConflictError, UnprocessableEntityError } from "./errors.ts";
+
+// A response as plain data, so stores can serialise it
+type StoredResponse = Readonly<{
+  status: number;
+  headers: readonly (readonly [string, string])[];
+  body: Uint8Array;
+}>;
+
+// Requests are told apart by a fingerprint of their method, URL and body
+type IdempotencyRecord =
+  | Readonly<{ status: 'in-flight'; fingerprint: string }>
+  | Readonly<{ status: 'completed'; fingerprint: string; response: StoredResponse }>;
+
+type IdempotencyStore = Readonly<{
+  get: (key: string) => MaybeOperation<IdempotencyRecord | undefined>;
+  // Store the record only if the key is absent or expired, atomically across
+  // processes sharing the store; false when another record holds the key
+  create: (key: string, record: IdempotencyRecord, ttlMs: number) => MaybeOperation<boolean>;
+  set: (key: string, record: IdempotencyRecord, ttlMs: number) => MaybeOperation<void>;
+  delete: (key: string) => MaybeOperation<void>;
+}>;
+
+type IdempotencyOptions = Readonly<{
+  store?: IdempotencyStore;
+  // How long responses are replayed, 24 hours by default
+  ttlMs?: number;
+  header?: string;
+  methods?: readonly string[];
+  // Namespaces keys, e.g. by user, so clients can't replay each other's responses
+  scope?: (req: Request, context: RequestContext) => string;
+  // Largest body read to fingerprint a request, in bytes; larger ones get a
+  // 413. Defaults to the default `config.maxRequestSize`.
+  maxRequestSize?: number;
+}>;
+
+// In-memory store, unbounded unless `maxKeys` is set
+const createMemoryIdempotencyStore = (
+  options: ExpiringMapOptions = {}
+): IdempotencyStore & Readonly<{ size: () => number }> => {
+  const entries = createExpiringMap<IdempotencyRecord>(options);
+
+  return {
+    ...entries,
+    create: (key, record, ttlMs) => {
+      if (entries.get(key)) return false;
+      entries.set(key, record, ttlMs);
+      return true;
+    }
+  };
+};
+
+const digestRequest = async (req: Request, body: Uint8Array): Promise<string> => {
+  const url = new URL(req.url);
+  const head = new TextEncoder().encode(`${req.method} ${url.pathname}${url.search}\n`);
+  const data = new Uint8Array(head.length + body.length);
+  data.set(head);
+  data.set(body, head.length);
+
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const fingerprintRequest = (req: Request, maxSize: number): Operation<string> => ({
+  *[Symbol.iterator]() {
+    const body = yield* readBytes(req.clone(), { maxSize });
+    return yield* effect('fingerprint-request', () => digestRequest(req, body));
+  }
+});
+
+const storeResponse = (downstream: Operation<Response>): Operation<StoredResponse> => ({
+  *[Symbol.iterator]() {
+    const response = yield* downstream;
+    const body = yield* effect('buffer-response', () => response.arrayBuffer());
+    return { status: response.status, headers: [...response.headers], body: new Uint8Array(body) };
+  }
+});
+
+const replayResponse = (stored: StoredResponse, replayed: boolean): Response => {
+  const response = new Response(stored.body.length > 0 ? new Uint8Array(stored.body) : null, {
+    status: stored.status,
+    headers: stored.headers.map(([name, value]) => [name, value])
+  });
+  if (replayed) response.headers.set('Idempotent-Replayed', 'true');
+  return response;
+};
+
+const mismatch = (key: string) =>
+  new UnprocessableEntityError(`Idempotency-Key "${key}" was already used with a different request`);
+
+// A request running in this process. Both promises settle once it is done:
+// the fingerprint as null if it failed before computing one, the response as
+// null if it failed.
+type InFlight = Readonly<{
+  fingerprint: Promise<string | null>;
+  response: Promise<StoredResponse | null>;
+}>;
+
+// Run unsafe requests carrying an `Idempotency-Key` header at most once. The
+// first request runs and its response is stored; duplicates arriving while it
+// runs wait for it, later ones get the stored response. Failures (thrown
+// errors and 5xx responses) are not stored, so the client can try again.
+// Responses are buffered in full.
+const idempotency = (options: IdempotencyOptions = {}): Middleware => {
+  const {
+    store = createMemoryIdempotencyStore(),
+    ttlMs = 24 * 60 * 60 * 1000,
+    header = 'Idempotency-Key',
+    methods = ['POST', 'PATCH', 'DELETE'],
+    scope = () => '',
+    maxRequestSize = defaultConfig.maxRequestSize
+  } = options;
+  // Requests running in this process, by store key
+  const inFlight = new Map<string, InFlight>();
+
+  return (req, next, context): Operation<Response> => ({
+    *[Symbol.iterator]() {
+      const key = req.headers.get(header);
+      if (!key || !methods.includes(req.method)) return yield* next();
+
+      const storeKey = `${scope(req, context)}:${key}`;
+      let fingerprint: string | null = null;
+
+      // Loops only when the request being waited for failed
+      while (true) {
+        const running = inFlight.get(storeKey);
+        if (running) {
+          fingerprint ??= yield* fingerprintRequest(req, maxRequestSize);
+          const theirs = yield* toOperation(running.fingerprint);
+          if (theirs !== null && theirs !== fingerprint) throw mismatch(key);
+
+          const response = yield* toOperation(running.response);
+          if (response) return replayResponse(response, true);
+          continue;
+        }
+
+        // Registered before the first yield, so duplicates in this process
+        // always find it; the store's `create` does the same across processes
+        const ownFingerprint = Promise.withResolvers<string | null>();
+        const ownResponse = Promise.withResolvers<StoredResponse | null>();
+        inFlight.set(storeKey, { fingerprint: ownFingerprint.promise, response: ownResponse.promise });
+        let shared: StoredResponse | null = null;
+
+        try {
+          fingerprint ??= yield* fingerprintRequest(req, maxRequestSize);
+          ownFingerprint.resolve(fingerprint);
+
+          const created = yield* toOperation(store.create(storeKey, { status: 'in-flight', fingerprint }, ttlMs));
+          if (!created) {
+            const record = yield* toOperation(store.get(storeKey));
+            // Expired in the meantime
+            if (!record) continue;
+            if (record.fingerprint !== fingerprint) throw mismatch(key);
+            if (record.status === 'completed') {
+              shared = record.response;
+              return replayResponse(record.response, true);
+            }
+            // Running in another process
+            throw new ConflictError(`A request with Idempotency-Key "${key}" is still being processed`, {
+              headers: { 'Retry-After': '1' }
+            });
+          }
+
+          let stored = false;
+          try {
+            const response = yield* storeResponse(next());
+            shared = response;
+            if (response.status < 500) {
+              yield* toOperation(store.set(storeKey, { status: 'completed', fingerprint, response }, ttlMs));
+              stored = true;
+            }
+            return replayResponse(response, false);
+          } finally {
+            if (!stored) yield* toOperation(store.delete(storeKey));
+          }
+        } finally {
+          inFlight.delete(storeKey);
+          ownFingerprint.resolve(null);
+          ownResponse.resolve(shared);
+        }
+      }
+    }
+  });
+};
+
+export { createMemoryIdempotencyStore, idempotency };
+export type { IdempotencyOptions, IdempotencyRecord, IdempotencyStore, StoredResponse };
@@ -0,0 +1,171 @@
+// idempotency_test.ts
+import { assertEquals } from "@std/assert";
+import { sleep } from "./higherEffection.ts";
+import { readText } from "./body.ts";
+import {
+  createMemoryIdempotencyStore,
+  idempotency,
+  type IdempotencyRecord,
+  type IdempotencyStore
+} from "./idempotency.ts";
+import { del, get, post } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+const key = (value: string) => ({ "Idempotency-Key": value });
+
+// Creates numbered items, counting how often the handler ran
+const createItems = () => {
+  const calls: string[] = [];
+  const create = async (req: Request) => {
+    calls.push(await readText(req));
+    return Response.json({ id: calls.length }, { status: 201, headers: { "X-Call": String(calls.length) } });
+  };
+  return { calls, create };
+};
+
+Deno.test("duplicates replay the stored response", async () => {
+  const { calls, create } = createItems();
+  const client = createTestClient([post("/items", create), get("/items", create)], {}, {
+    middleware: [idempotency()]
+  });
+
+  const first = await client.post("/items", { body: "milk", headers: key("a") });
+  assertEquals(first.status, 201);
+  assertEquals(first.headers.get("Idempotent-Replayed"), null);
+  assertEquals(await first.json(), { id: 1 });
+
+  const replayed = await client.post("/items", { body: "milk", headers: key("a") });
+  assertEquals(replayed.status, 201);
+  assertEquals(replayed.headers.get("X-Call"), "1");
+  assertEquals(replayed.headers.get("Idempotent-Replayed"), "true");
+  assertEquals(await replayed.json(), { id: 1 });
+  assertEquals(calls, ["milk"]);
+
+  // Other keys, requests without a key and safe methods run as usual
+  assertEquals(await (await client.post("/items", { body: "milk", headers: key("b") })).json(), { id: 2 });
+  assertEquals(await (await client.post("/items", { body: "milk" })).json(), { id: 3 });
+  assertEquals(await (await client.get("/items", { headers: key("a") })).json(), { id: 4 });
+});
+
+Deno.test("a key reused with a different request is rejected with 422", async () => {
+  const { calls, create } = createItems();
+  const client = createTestClient([post("/items", create), post("/other", create)], {}, {
+    middleware: [idempotency()]
+  });
+
+  await (await client.post("/items", { body: "milk", headers: key("a") })).body?.cancel();
+
+  const body = await client.post("/items", { body: "eggs", headers: key("a") });
+  assertEquals(body.status, 422);
+  assertEquals(body.headers.get("Content-Type"), "application/problem+json");
+  await body.body?.cancel();
+
+  const path = await client.post("/other", { body: "milk", headers: key("a") });
+  assertEquals(path.status, 422);
+  await path.body?.cancel();
+  assertEquals(calls, ["milk"]);
+});
+
+Deno.test("bodies over the size limit are rejected before fingerprinting", async () => {
+  const { calls, create } = createItems();
+  const client = createTestClient([post("/items", create)], {}, {
+    middleware: [idempotency({ maxRequestSize: 8 })]
+  });
+
+  const oversize = await client.post("/items", { body: "x".repeat(9), headers: key("a") });
+  assertEquals(oversize.status, 413);
+  assertEquals(oversize.headers.get("Content-Type"), "application/problem+json");
+  await oversize.body?.cancel();
+
+  const declared = await client.post("/items", { body: "milk", headers: { ...key("b"), "Content-Length": "1000000" } });
+  assertEquals(declared.status, 413);
+  await declared.body?.cancel();
+  assertEquals(calls, []);
+
+  // The key is free again once the oversize request failed
+  assertEquals((await client.post("/items", { body: "milk", headers: key("a") })).status, 201);
+});
+
+Deno.test("concurrent duplicates wait for the request in flight", async () => {
+  let calls = 0;
+  const client = createTestClient([
+    post("/jobs", function* () {
+      calls++;
+      yield* sleep(20);
+      return Response.json({ job: calls }, { status: 202 });
+    })
+  ], {}, { middleware: [idempotency()] });
+
+  const responses = await Promise.all([1, 2, 3].map(() => client.post("/jobs", { body: "{}", headers: key("job") })));
+
+  assertEquals(calls, 1);
+  assertEquals(responses.map(response => response.status), [202, 202, 202]);
+  // Whichever request arrived first ran; the others replayed its response
+  assertEquals(responses.map(response => response.headers.get("Idempotent-Replayed")).sort(), [null, "true", "true"]);
+  assertEquals(await Promise.all(responses.map(response => response.json())), [{ job: 1 }, { job: 1 }, { job: 1 }]);
+});
+
+// A shared store answering after a delay, like one over the network
+const createSlowStore = (): IdempotencyStore => {
+  const store = createMemoryIdempotencyStore();
+  const slow = <T>(value: () => T) => new Promise<T>(resolve => setTimeout(() => resolve(value()), 5));
+  return {
+    get: (key) => slow(() => store.get(key) as IdempotencyRecord | undefined),
+    create: (key, record, ttlMs) => slow(() => store.create(key, record, ttlMs) as boolean),
+    set: (key, record, ttlMs) => slow(() => store.set(key, record, ttlMs) as void),
+    delete: (key) => slow(() => store.delete(key) as void)
+  };
+};
+
+Deno.test("concurrent duplicates run once with an async store", async () => {
+  let calls = 0;
+  const jobs = post("/jobs", function* () {
+    calls++;
+    yield* sleep(20);
+    return Response.json({ job: calls }, { status: 202 });
+  });
+  const store = createSlowStore();
+  const client = createTestClient([jobs], {}, { middleware: [idempotency({ store })] });
+
+  const responses = await Promise.all([1, 2, 3].map(() => client.post("/jobs", { body: "{}", headers: key("job") })));
+  assertEquals(calls, 1);
+  assertEquals(responses.map(response => response.status), [202, 202, 202]);
+  await Promise.all(responses.map(response => response.body?.cancel()));
+
+  // Another process sharing the store sees the key taken, never runs the job twice
+  const first = createTestClient([jobs], {}, { middleware: [idempotency({ store })] });
+  const second = createTestClient([jobs], {}, { middleware: [idempotency({ store })] });
+  const [a, b] = await Promise.all([
+    first.post("/jobs", { body: "{}", headers: key("other") }),
+    second.post("/jobs", { body: "{}", headers: key("other") })
+  ]);
+  assertEquals([a.status, b.status].sort(), [202, 409]);
+  assertEquals((a.status === 409 ? a : b).headers.get("Retry-After"), "1");
+  assertEquals(calls, 2);
+  await Promise.all([a.body?.cancel(), b.body?.cancel()]);
+});
+
+Deno.test("failures are not stored and stored responses expire", async () => {
+  const clock = { now: 0 };
+  const store = createMemoryIdempotencyStore({ now: () => clock.now });
+  let calls = 0;
+  const client = createTestClient([
+    del("/items/1", () => {
+      calls++;
+      if (calls === 1) throw new Error("database unavailable");
+      return new Response(null, { status: 204 });
+    })
+  ], {}, { middleware: [idempotency({ store, ttlMs: 1000 })] });
+
+  assertEquals((await client.delete("/items/1", { headers: key("d") })).status, 500);
+  assertEquals(store.size(), 0);
+
+  assertEquals((await client.delete("/items/1", { headers: key("d") })).status, 204);
+  const replayed = await client.delete("/items/1", { headers: key("d") });
+  assertEquals([replayed.status, replayed.headers.get("Idempotent-Replayed")], [204, "true"]);
+  assertEquals(calls, 2);
+
+  clock.now = 1000;
+  assertEquals((await client.delete("/items/1", { headers: key("d") })).headers.get("Idempotent-Replayed"), null);
+  assertEquals(calls, 3);
+});
@@ -0,0 +1,113 @@
+import {
+  Operation,
+  settle,
+  toOperation,
+  useScope,
+  type MaybeOperation
+} from "./higherEffection.ts";
+import { forRequest, type RequestContext } from "./context.ts";
+
+// The rest of the pipeline as seen from a middleware. It can be consumed with
+// `yield*` from an Operation middleware or with `await` from an async one.
+type Downstream = Operation<Response> & PromiseLike<Response>;
+
+type Next = (req?: Request) => Downstream;
+
+type Middleware = (
+  req: Request,
+  next: Next,
+  context: RequestContext
+) => MaybeOperation<Response>;
+
+type Endpoint = (req: Request, context: RequestContext) => Operation<Response>;
+
+// Run `operation` inline when yielded, or as a task in `scope` when awaited
+const createDownstream = (
+  run: <T>(operation: () => Operation<T>) => PromiseLike<T>,
+  operation: () => Operation<Response>
+): Downstream => {
+  let promise: PromiseLike<Response> | undefined;
+
+  return {
+    *[Symbol.iterator]() {
+      return yield* operation();
+    },
+    then(onFulfilled, onRejected) {
+      // Settle inside the task so a failing handler rejects this promise
+      // instead of crashing the request scope
+      promise ??= run(() => settle(operation())).then(result =>
+        result.type === 'ok' ? result.value : Promise.reject(result.error)
+      );
+      return promise.then(onFulfilled, onRejected);
+    }
+  };
+};
+
+// Compose middleware around an endpoint, executed in the current scope
+const applyMiddleware = (
+  middleware: readonly Middleware[],
+  endpoint: Endpoint
+): Endpoint => {
+  if (middleware.length === 0) return endpoint;
+
+  return (req, context) => ({
+    *[Symbol.iterator]() {
+      const scope = yield* useScope();
+
+      const dispatch = (
+        index: number,
+        req: Request,
+        context: RequestContext
+      ): Operation<Response> => {
+        if (index >= middleware.length) return endpoint(req, context);
+
+        let called = false;
+        const next: Next = (nextReq = req) => {
+          if (called) {
+            throw new Error('next() called multiple times by the same middleware');
+          }
+          called = true;
+          return createDownstream(
+            (operation) => scope.run(operation),
+            () => dispatch(index + 1, nextReq, forRequest(context, nextReq))
+          );
+        };
+
+        return toOperation(middleware[index](req, next, context));
+      };
+
+      return yield* dispatch(0, req, context);
+    }
+  });
+};
+
+// Normalise path prefixes to a leading slash and no trailing slash
+const normalizePrefix = (prefix: string): string =>
+  `/${prefix.split('/').filter(part => part.length > 0).join('/')}`;
+
+const isUnderPrefix = (path: string, prefix: string): boolean =>
+  prefix === '/' || path === prefix || path.startsWith(`${prefix}/`);
+
+// Restrict middleware to requests whose path lives under `prefix`
+const forPrefix = (prefix: string, ...middleware: Middleware[]): Middleware => {
+  const base = normalizePrefix(prefix);
+
+  return (req, next, context) => {
+    if (!isUnderPrefix(context.path, base)) return next();
+    return applyMiddleware(middleware, (req) => next(req))(req, context);
+  };
+};
+
+// Built-in middleware
+const requestLogger: Middleware = function* (req, next, context) {
+  const response = yield* next();
+
+  console.log(
+    `${req.method} ${context.path} - ${response.status} (${Date.now() - context.timestamp}ms) [${context.id}]`
+  );
+
+  return response;
+};
+
+export { applyMiddleware, forPrefix, isUnderPrefix, normalizePrefix, requestLogger };
+export type { Middleware, Next, Downstream, Endpoint };
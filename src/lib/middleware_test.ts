@@ -0,0 +1,96 @@
+// middleware_test.ts
+import { assertEquals } from "@std/assert";
+import { run } from "@effection/effection";
+import { createRequestContext } from "./context.ts";
+import { toOperation } from "./higherEffection.ts";
+import { applyMiddleware, forPrefix, type Endpoint, type Middleware } from "./middleware.ts";
+
+const endpoint: Endpoint = (_req, context) => toOperation(new Response(context.path));
+
+const dispatch = (handler: Endpoint, url: string) => {
+  const req = new Request(url);
+  return run(() => handler(req, createRequestContext(req)));
+};
+
+const tag = (name: string, calls: string[]): Middleware => async (_req, next) => {
+  calls.push(`${name}:before`);
+  const response = await next();
+  calls.push(`${name}:after`);
+  response.headers.append("x-tags", name);
+  return response;
+};
+
+Deno.test("applyMiddleware runs async and Operation middleware in order", async () => {
+  const calls: string[] = [];
+  const operation: Middleware = function* (_req, next) {
+    calls.push("op:before");
+    const response = yield* next();
+    calls.push("op:after");
+    return response;
+  };
+
+  const handler = applyMiddleware([tag("outer", calls), operation, tag("inner", calls)], endpoint);
+  const response = await dispatch(handler, "http://localhost/a");
+
+  assertEquals(await response.text(), "/a");
+  assertEquals(response.headers.get("x-tags"), "inner, outer");
+  assertEquals(calls, [
+    "outer:before",
+    "op:before",
+    "inner:before",
+    "inner:after",
+    "op:after",
+    "outer:after"
+  ]);
+});
+
+Deno.test("applyMiddleware lets middleware replace the request or short-circuit", async () => {
+  const rewrite: Middleware = (req, next) => next(new Request(new URL("/rewritten", req.url)));
+  const deny: Middleware = () => new Response("denied", { status: 401 });
+
+  const rewritten = await dispatch(applyMiddleware([rewrite], endpoint), "http://localhost/a");
+  assertEquals(await rewritten.text(), "/rewritten");
+
+  const denied = await dispatch(applyMiddleware([deny, rewrite], endpoint), "http://localhost/a");
+  assertEquals(denied.status, 401);
+});
+
+Deno.test("applyMiddleware surfaces downstream errors to async middleware", async () => {
+  const failing: Endpoint = () => toOperation(Promise.reject(new Error("boom")));
+  const recover: Middleware = async (_req, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      return new Response((error as Error).message, { status: 500 });
+    }
+  };
+
+  const response = await dispatch(applyMiddleware([recover], failing), "http://localhost/");
+  assertEquals(response.status, 500);
+  assertEquals(await response.text(), "boom");
+});
+
+Deno.test("forPrefix only applies middleware under the prefix", async () => {
+  const calls: string[] = [];
+  const handler = applyMiddleware([forPrefix("/api/", tag("api", calls))], endpoint);
+
+  const api = await dispatch(handler, "http://localhost/api/todos");
+  const apiRoot = await dispatch(handler, "http://localhost/api");
+  const other = await dispatch(handler, "http://localhost/apis");
+
+  assertEquals(api.headers.get("x-tags"), "api");
+  assertEquals(apiRoot.headers.get("x-tags"), "api");
+  assertEquals(other.headers.get("x-tags"), null);
+});
+
+Deno.test("applyMiddleware shares state across the pipeline", async () => {
+  const authenticate: Middleware = (_req, next, context) => {
+    context.state.userName = "ada";
+    return next();
+  };
+  const greet: Endpoint = (_req, context) =>
+    toOperation(new Response(`hello ${context.state.userName} at ${context.path}?${context.query.lang}`));
+
+  const response = await dispatch(applyMiddleware([authenticate], greet), "http://localhost/me?lang=en");
+  assertEquals(await response.text(), "hello ada at /me?en");
+});
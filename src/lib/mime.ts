@@ -0,0 +1,154 @@
+import * as path from "@std/path";
+
+// Extra or overriding content types by file extension, e.g. { md: "text/markdown" }
+type MimeTypes = Readonly<Record<string, string>>;
+
+// Content types by file extension
+const MIME_TYPES: ReadonlyMap<string, string> = new Map([
+  // Documents and code
+  ['html', 'text/html'],
+  ['htm', 'text/html'],
+  ['css', 'text/css'],
+  ['js', 'text/javascript'],
+  ['mjs', 'text/javascript'],
+  ['cjs', 'text/javascript'],
+  ['json', 'application/json'],
+  ['map', 'application/json'],
+  ['jsonld', 'application/ld+json'],
+  ['webmanifest', 'application/manifest+json'],
+  ['xml', 'application/xml'],
+  ['rss', 'application/rss+xml'],
+  ['atom', 'application/atom+xml'],
+  ['txt', 'text/plain'],
+  ['md', 'text/markdown'],
+  ['csv', 'text/csv'],
+  ['tsv', 'text/tab-separated-values'],
+  ['ics', 'text/calendar'],
+  ['vtt', 'text/vtt'],
+  ['yaml', 'application/yaml'],
+  ['yml', 'application/yaml'],
+  ['wasm', 'application/wasm'],
+  ['pdf', 'application/pdf'],
+  // Images
+  ['png', 'image/png'],
+  ['jpg', 'image/jpeg'],
+  ['jpeg', 'image/jpeg'],
+  ['gif', 'image/gif'],
+  ['webp', 'image/webp'],
+  ['avif', 'image/avif'],
+  ['svg', 'image/svg+xml'],
+  ['ico', 'image/x-icon'],
+  ['bmp', 'image/bmp'],
+  ['tif', 'image/tiff'],
+  ['tiff', 'image/tiff'],
+  // Fonts
+  ['woff', 'font/woff'],
+  ['woff2', 'font/woff2'],
+  ['ttf', 'font/ttf'],
+  ['otf', 'font/otf'],
+  ['eot', 'application/vnd.ms-fontobject'],
+  // Audio and video
+  ['mp3', 'audio/mpeg'],
+  ['wav', 'audio/wav'],
+  ['ogg', 'audio/ogg'],
+  ['oga', 'audio/ogg'],
+  ['opus', 'audio/opus'],
+  ['m4a', 'audio/mp4'],
+  ['aac', 'audio/aac'],
+  ['flac', 'audio/flac'],
+  ['weba', 'audio/webm'],
+  ['mp4', 'video/mp4'],
+  ['m4v', 'video/mp4'],
+  ['webm', 'video/webm'],
+  ['ogv', 'video/ogg'],
+  ['mov', 'video/quicktime'],
+  // Archives
+  ['zip', 'application/zip'],
+  ['gz', 'application/gzip'],
+  ['tar', 'application/x-tar']
+]);
+
+const OCTET_STREAM = 'application/octet-stream';
+
+// Types whose content is text, so the charset decides how it is read
+const isTextType = (type: string): boolean =>
+  type.startsWith('text/') ||
+  /^application\/(javascript|json|xml|yaml|[\w.-]+\+(json|xml))$/.test(type) ||
+  type === 'image/svg+xml';
+
+// Add `; charset=utf-8` to text types that don't name a charset
+const withCharset = (contentType: string): string => {
+  const [type, ...params] = contentType.split(';').map(part => part.trim());
+  if (!isTextType(type.toLowerCase())) return contentType;
+  if (params.some(param => param.toLowerCase().startsWith('charset='))) return contentType;
+  return `${contentType}; charset=utf-8`;
+};
+
+const normalizeExtension = (extension: string): string =>
+  extension.replace(/^\./, '').toLowerCase();
+
+// Content type for a file name from the built-in table and `custom`, which
+// wins; null when the extension is unknown or missing
+const createMimeLookup = (custom: MimeTypes = {}): (filePath: string) => string | null => {
+  const types = new Map(MIME_TYPES);
+  for (const [extension, type] of Object.entries(custom)) {
+    types.set(normalizeExtension(extension), type);
+  }
+
+  return (filePath) => {
+    const extension = path.extname(filePath);
+    const type = extension ? types.get(normalizeExtension(extension)) : undefined;
+    return type ? withCharset(type) : null;
+  };
+};
+
+const contentTypeFor = createMimeLookup();
+
+// Leading bytes of binary formats. Markup is never sniffed: a file that isn't
+// named .html or .svg shouldn't become a page that runs scripts.
+const SIGNATURES: ReadonlyArray<readonly [string, number, readonly number[]]> = [
+  ['image/png', 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  ['image/jpeg', 0, [0xff, 0xd8, 0xff]],
+  ['image/gif', 0, [0x47, 0x49, 0x46, 0x38]],
+  ['image/webp', 8, [0x57, 0x45, 0x42, 0x50]],
+  ['application/pdf', 0, [0x25, 0x50, 0x44, 0x46, 0x2d]],
+  ['application/zip', 0, [0x50, 0x4b, 0x03, 0x04]],
+  ['application/gzip', 0, [0x1f, 0x8b]],
+  ['application/wasm', 0, [0x00, 0x61, 0x73, 0x6d]],
+  ['font/woff', 0, [0x77, 0x4f, 0x46, 0x46]],
+  ['font/woff2', 0, [0x77, 0x4f, 0x46, 0x32]],
+  ['video/mp4', 4, [0x66, 0x74, 0x79, 0x70]],
+  ['video/webm', 0, [0x1a, 0x45, 0xdf, 0xa3]],
+  ['audio/ogg', 0, [0x4f, 0x67, 0x67, 0x53]],
+  ['audio/mpeg', 0, [0x49, 0x44, 0x33]]
+];
+
+// Bytes that don't occur in text files: controls other than tab, line feed,
+// form feed, carriage return and escape
+const isBinaryByte = (byte: number): boolean =>
+  byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b;
+
+// How many leading bytes `sniffContentType` looks at
+const SNIFF_LENGTH = 512;
+
+// Guess the type of a file without a known extension from its first bytes:
+// a known binary signature, UTF-8 text, or else an opaque octet stream
+const sniffContentType = (bytes: Uint8Array): string => {
+  const head = bytes.subarray(0, SNIFF_LENGTH);
+  const signature = SIGNATURES.find(([, offset, magic]) =>
+    head.length >= offset + magic.length && magic.every((byte, i) => head[offset + i] === byte)
+  );
+  if (signature) return signature[0];
+
+  if (head.some(isBinaryByte)) return OCTET_STREAM;
+  try {
+    // `stream` allows a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return 'text/plain; charset=utf-8';
+  } catch {
+    return OCTET_STREAM;
+  }
+};
+
+export { MIME_TYPES, OCTET_STREAM, SNIFF_LENGTH, contentTypeFor, createMimeLookup, sniffContentType, withCharset };
+export type { MimeTypes };
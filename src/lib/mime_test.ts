@@ -0,0 +1,91 @@
+// mime_test.ts
+import { assertEquals } from "@std/assert";
+import { defaultConfig, validateConfig } from "./config.ts";
+import { contentTypeFor, createMimeLookup, sniffContentType, withCharset } from "./mime.ts";
+import { createTestClient } from "./testing.ts";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+Deno.test("contentTypeFor knows common web files and adds a charset to text", () => {
+  assertEquals(contentTypeFor("app.mjs"), "text/javascript; charset=utf-8");
+  assertEquals(contentTypeFor("/fonts/Inter.WOFF2"), "font/woff2");
+  assertEquals(contentTypeFor("module.wasm"), "application/wasm");
+  assertEquals(contentTypeFor("notes.txt"), "text/plain; charset=utf-8");
+  assertEquals(contentTypeFor("photo.webp"), "image/webp");
+  assertEquals(contentTypeFor("clip.mp4"), "video/mp4");
+  assertEquals(contentTypeFor("report.pdf"), "application/pdf");
+  assertEquals(contentTypeFor("site.webmanifest"), "application/manifest+json; charset=utf-8");
+  assertEquals(contentTypeFor("LICENSE"), null);
+  assertEquals(contentTypeFor("archive.unknown"), null);
+
+  assertEquals(withCharset("text/csv; header=present"), "text/csv; header=present; charset=utf-8");
+  assertEquals(withCharset("text/plain; charset=latin1"), "text/plain; charset=latin1");
+  assertEquals(withCharset("image/png"), "image/png");
+});
+
+Deno.test("createMimeLookup adds and overrides types", () => {
+  const lookup = createMimeLookup({ ".GLB": "model/gltf-binary", md: "text/x-markdown", js: "application/javascript" });
+
+  assertEquals(lookup("scene.glb"), "model/gltf-binary");
+  assertEquals(lookup("README.md"), "text/x-markdown; charset=utf-8");
+  assertEquals(lookup("app.js"), "application/javascript; charset=utf-8");
+  assertEquals(lookup("app.css"), "text/css; charset=utf-8");
+});
+
+Deno.test("sniffContentType recognises binary signatures and text", () => {
+  assertEquals(sniffContentType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0)), "image/png");
+  assertEquals(sniffContentType(new TextEncoder().encode("%PDF-1.7\n")), "application/pdf");
+  assertEquals(sniffContentType(bytes(0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70, 0x69, 0x73, 0x6f, 0x6d)), "video/mp4");
+  assertEquals(sniffContentType(new TextEncoder().encode("Copyright (c) 2024\n\tAll rights reserved — ©")), "text/plain; charset=utf-8");
+  assertEquals(sniffContentType(new Uint8Array()), "text/plain; charset=utf-8");
+  // Markup stays plain text
+  assertEquals(sniffContentType(new TextEncoder().encode("<!DOCTYPE html><script>alert(1)</script>")), "text/plain; charset=utf-8");
+  assertEquals(sniffContentType(bytes(0x01, 0x02, 0x03)), "application/octet-stream");
+  assertEquals(sniffContentType(bytes(0xc3, 0x28, 0x41)), "application/octet-stream");
+  // A character cut off at the end of the sample is still text
+  assertEquals(sniffContentType(new TextEncoder().encode("a".repeat(511) + "é")), "text/plain; charset=utf-8");
+});
+
+Deno.test("static files use the configured types and sniff the rest", async () => {
+  const publicDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${publicDir}/README`, "Read me");
+    await Deno.writeFile(`${publicDir}/blob`, bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a));
+    await Deno.writeTextFile(`${publicDir}/scene.glb`, "glTF");
+    await Deno.writeTextFile(`${publicDir}/style.css`, "body {}");
+
+    const client = createTestClient([], { publicDir, mimeTypes: { glb: "model/gltf-binary" } });
+    for (const [file, type] of [
+      ["/README", "text/plain; charset=utf-8"],
+      ["/blob", "image/png"],
+      ["/scene.glb", "model/gltf-binary"],
+      ["/style.css", "text/css; charset=utf-8"]
+    ]) {
+      const response = await client.get(file);
+      assertEquals(response.headers.get("Content-Type"), type, file);
+      await response.body?.cancel();
+    }
+
+    // Sniffing reads ahead without losing the start of the file
+    assertEquals(await (await client.get("/README")).text(), "Read me");
+  } finally {
+    await Deno.remove(publicDir, { recursive: true });
+  }
+});
+
+Deno.test("validateConfig checks configured MIME types", () => {
+  const result = validateConfig({
+    ...defaultConfig,
+    mimeTypes: { ".glb": "model/gltf-binary", "a/b": "text/plain", md: "markdown" }
+  });
+
+  assertEquals((result as { error: Error }).error.message, [
+    "Invalid configuration:",
+    "  - mimeTypes: invalid extension \"a/b\"",
+    "  - mimeTypes.md: expected a content type such as \"text/markdown\", got \"markdown\""
+  ].join("\n"));
+
+  // The built-in table is enough when none are configured
+  const { mimeTypes: _, ...withoutMimeTypes } = defaultConfig;
+  assertEquals(validateConfig(withoutMimeTypes).type, "ok");
+});
@@ -0,0 +1,177 @@
+import { Operation, effect } from "./higherEffection.ts";
+import { ANY_METHOD, parsePath } from "./router.ts";
+import type { Route, RouteDocs, SecurityRequirement } from "./routes.ts";
+import type { Fields, JsonSchema, ObjectSchema } from "./schema.ts";
+
+type OpenApiOptions = Readonly<{
+  info: Readonly<{ title: string; version: string; description?: string }>;
+  servers?: readonly Readonly<{ url: string; description?: string }>[];
+  // Named security schemes, e.g. `{ bearerAuth: { type: 'http', scheme: 'bearer' } }`
+  securitySchemes?: Readonly<Record<string, JsonSchema>>;
+  // Applied to every operation that doesn't declare its own
+  security?: readonly SecurityRequirement[];
+  tags?: readonly Readonly<{ name: string; description?: string }>[];
+  // Route serving the document, "/openapi.json" by default; `false` to not serve it
+  path?: string | false;
+}>;
+
+type OpenApiDocument = Readonly<Record<string, unknown>>;
+
+// Shared by every validated operation
+const validationProblemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    requestId: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          in: { enum: ['params', 'query', 'headers', 'body'] },
+          field: { type: 'string' },
+          message: { type: 'string' }
+        },
+        required: ['in', 'field', 'message']
+      }
+    }
+  },
+  required: ['type', 'title', 'status', 'instance', 'requestId']
+};
+
+const capitalize = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+// Wildcards named "*" still need a usable parameter name
+const paramName = (name: string): string => name === '*' ? 'wildcard' : name;
+
+// "/todos/:id" becomes "/todos/{id}" and "getTodosById"
+const describePath = (path: string, method: string) => {
+  const segments = parsePath(path);
+  const openApiPath = '/' + segments
+    .map(segment => segment.type === 'static' ? segment.value : `{${paramName(segment.name)}}`)
+    .join('/');
+  const operationId = method.toLowerCase() + segments
+    .map(segment => segment.type === 'static'
+      ? segment.value.split(/[^a-zA-Z0-9]+/).map(capitalize).join('')
+      : `By${capitalize(paramName(segment.name))}`)
+    .join('');
+  const params = segments.flatMap(segment => segment.type === 'static' ? [] : [segment.name]);
+
+  return { openApiPath, operationId, params };
+};
+
+const parameters = (location: 'query' | 'header', schema: ObjectSchema<Fields> | undefined) =>
+  Object.entries(schema?.fields ?? {}).map(([name, field]) => ({
+    name,
+    in: location,
+    required: !field.optional,
+    schema: field.jsonSchema
+  }));
+
+const describeResponses = (route: Route) => {
+  const documented = Object.entries(route.docs?.responses ?? {}).map(([status, response]) => [status, {
+    description: response.description,
+    ...(response.body
+      ? { content: { [response.contentType ?? 'application/json']: { schema: response.body.jsonSchema } } }
+      : {})
+  }]);
+  const responses: Record<string, unknown> = documented.length > 0
+    ? Object.fromEntries(documented)
+    : { '200': { description: 'Successful response' } };
+
+  if (route.schema && !('400' in responses)) {
+    responses['400'] = {
+      description: 'The request failed validation',
+      content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/ValidationProblem' } } }
+    };
+  }
+  return responses;
+};
+
+const describeOperation = (route: Route, path: string, docs: RouteDocs) => {
+  const { operationId, params } = describePath(path, route.method);
+  const { schema } = route;
+
+  return {
+    operationId: docs.operationId ?? operationId,
+    ...(docs.summary ? { summary: docs.summary } : {}),
+    ...(docs.description ? { description: docs.description } : {}),
+    ...(docs.tags?.length ? { tags: docs.tags } : {}),
+    parameters: [
+      ...params.map(name => ({
+        name: paramName(name),
+        in: 'path',
+        required: true,
+        schema: schema?.params?.fields[name]?.jsonSchema ?? { type: 'string' }
+      })),
+      ...parameters('query', schema?.query),
+      ...parameters('header', schema?.headers)
+    ],
+    ...(schema?.body
+      ? {
+        requestBody: {
+          required: !schema.body.optional,
+          content: { 'application/json': { schema: schema.body.jsonSchema } }
+        }
+      }
+      : {}),
+    responses: describeResponses(route),
+    ...(docs.security ? { security: docs.security } : {}),
+    ...(docs.deprecated ? { deprecated: true } : {})
+  };
+};
+
+// Generate an OpenAPI 3.1 document. RegExp routes and routes for any method
+// can't be described and are left out, as are routes marked `hidden`.
+const createOpenApiDocument = (routes: readonly Route[], options: OpenApiOptions): OpenApiDocument => {
+  const paths: Record<string, Record<string, unknown>> = {};
+  const tagNames = new Set((options.tags ?? []).map(tag => tag.name));
+  let validated = false;
+
+  for (const route of routes) {
+    const docs = route.docs ?? {};
+    if (typeof route.path !== 'string' || route.method === ANY_METHOD || docs.hidden) continue;
+
+    const { openApiPath } = describePath(route.path, route.method);
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [route.method.toLowerCase()]: describeOperation(route, route.path, docs)
+    };
+    docs.tags?.forEach(tag => tagNames.add(tag));
+    validated ||= route.schema !== undefined;
+  }
+
+  const components = {
+    ...(validated ? { schemas: { ValidationProblem: validationProblemSchema } } : {}),
+    ...(options.securitySchemes ? { securitySchemes: options.securitySchemes } : {})
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    ...(tagNames.size > 0
+      ? { tags: [...tagNames].map(name => options.tags?.find(tag => tag.name === name) ?? { name }) }
+      : {}),
+    ...(options.security ? { security: options.security } : {}),
+    paths,
+    ...(Object.keys(components).length > 0 ? { components } : {})
+  };
+};
+
+const writeOpenApiDocument = (
+  routes: readonly Route[],
+  options: OpenApiOptions,
+  file: string
+): Operation<void> =>
+  effect('write-openapi', () =>
+    Deno.writeTextFile(file, JSON.stringify(createOpenApiDocument(routes, options), null, 2) + '\n')
+  );
+
+export { createOpenApiDocument, writeOpenApiDocument };
+export type { OpenApiDocument, OpenApiOptions };
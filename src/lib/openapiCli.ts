@@ -0,0 +1,28 @@
+// Write the OpenAPI document of an app, for client generators:
+//
+//   deno run --allow-read --allow-write src/lib/openapiCli.ts <app module> [output file]
+//
+// The module must export `routes` and `openapi` (its OpenApiOptions) and only
+// start its server when run as the main module. Without an output file the
+// document is printed.
+import { run } from "./higherEffection.ts";
+import { createOpenApiDocument, writeOpenApiDocument } from "./openapi.ts";
+
+const [module, file] = Deno.args;
+if (!module) {
+  console.error('Usage: openapiCli.ts <app module> [output file]');
+  Deno.exit(2);
+}
+
+const app = await import(new URL(module, `file://${Deno.cwd()}/`).href);
+if (!Array.isArray(app.routes) || !app.openapi) {
+  console.error(`${module} must export "routes" and "openapi"`);
+  Deno.exit(2);
+}
+
+if (file) {
+  await run(() => writeOpenApiDocument(app.routes, app.openapi, file));
+  console.log(`OpenAPI document written to ${file}`);
+} else {
+  console.log(JSON.stringify(createOpenApiDocument(app.routes, app.openapi), null, 2));
+}
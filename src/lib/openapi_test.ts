@@ -0,0 +1,83 @@
+// openapi_test.ts
+import { assertEquals } from "@std/assert";
+import { createOpenApiDocument } from "./openapi.ts";
+import { all, del, get, group, post, withDocs } from "./routes.ts";
+import { integer, object, optional, string } from "./schema.ts";
+import { createTestClient } from "./testing.ts";
+
+const item = object({ id: integer(), name: string() });
+
+const routes = group("/api", [
+  withDocs(get("/items/:id", { params: object({ id: integer({ minimum: 1 }) }) }, () => new Response()), {
+    summary: "Get an item",
+    responses: { "200": { description: "The item", body: item } }
+  }),
+  withDocs(post("/items", {
+    query: object({ dryRun: optional(string()) }),
+    headers: object({ "x-request-id": string() }),
+    body: object({ name: string() })
+  }, () => new Response()), { security: [{ bearerAuth: [] }], tags: ["writes"] }),
+  del("/files/*path", () => new Response()),
+  all("/any", () => new Response()),
+  get(/^\/regexp$/, () => new Response()),
+  withDocs(get("/internal", () => new Response()), { hidden: true })
+], { docs: { tags: ["items"] } });
+
+const options = {
+  info: { title: "Items", version: "1.2.3" },
+  securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } },
+  tags: [{ name: "items", description: "Item operations" }]
+};
+
+Deno.test("createOpenApiDocument describes paths, parameters and bodies", () => {
+  const document = createOpenApiDocument(routes, options);
+  const paths = document.paths as Record<string, Record<string, Record<string, unknown>>>;
+
+  assertEquals(document.openapi, "3.1.0");
+  assertEquals(Object.keys(paths), ["/api/items/{id}", "/api/items", "/api/files/{path}"]);
+  assertEquals(document.tags, [{ name: "items", description: "Item operations" }, { name: "writes" }]);
+  assertEquals(document.components, {
+    schemas: { ValidationProblem: (document.components as { schemas: Record<string, unknown> }).schemas.ValidationProblem },
+    securitySchemes: options.securitySchemes
+  });
+
+  const getItem = paths["/api/items/{id}"].get;
+  assertEquals(getItem.operationId, "getApiItemsById");
+  assertEquals(getItem.tags, ["items"]);
+  assertEquals(getItem.parameters, [
+    { name: "id", in: "path", required: true, schema: { type: "integer", minimum: 1 } }
+  ]);
+  assertEquals(Object.keys(getItem.responses as object), ["200", "400"]);
+
+  const createItem = paths["/api/items"].post;
+  assertEquals(createItem.tags, ["items", "writes"]);
+  assertEquals(createItem.security, [{ bearerAuth: [] }]);
+  assertEquals(createItem.parameters, [
+    { name: "dryRun", in: "query", required: false, schema: { type: "string" } },
+    { name: "x-request-id", in: "header", required: true, schema: { type: "string" } }
+  ]);
+  assertEquals(createItem.requestBody, {
+    required: true,
+    content: {
+      "application/json": {
+        schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] }
+      }
+    }
+  });
+
+  assertEquals(paths["/api/files/{path}"].delete.parameters, [
+    { name: "path", in: "path", required: true, schema: { type: "string" } }
+  ]);
+});
+
+Deno.test("the document is served at the configured path", async () => {
+  const client = createTestClient(routes, {}, { openapi: { ...options, path: "/docs/openapi.json" } });
+
+  const response = await client.get("/docs/openapi.json");
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), createOpenApiDocument(routes, options));
+  assertEquals((await client.get("/openapi.json")).status, 404);
+
+  const unserved = createTestClient(routes, {}, { openapi: { ...options, path: false } });
+  assertEquals((await unserved.get("/openapi.json")).status, 404);
+});
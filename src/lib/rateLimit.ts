@@ -0,0 +1,211 @@
+import { Operation, toOperation, type MaybeOperation } from "./higherEffection.ts";
+import type { Middleware } from "./middleware.ts";
+import type { RequestContext } from "./context.ts";
+import { TooManyRequestsError } from "./errors.ts";
+import { createExpiringMap, type ExpiringMapOptions } from "./expiringMap.ts";
+
+type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+// Per-key state; plain data so stores can serialise it
+type RateLimitState =
+  | Readonly<{ algorithm: 'sliding-window'; windowStart: number; previous: number; current: number }>
+  | Readonly<{ algorithm: 'token-bucket'; tokens: number; updatedAt: number }>;
+
+// Stores only hold state; the algorithms run in the middleware
+type RateLimitStore = Readonly<{
+  get: (key: string) => MaybeOperation<RateLimitState | undefined>;
+  set: (key: string, state: RateLimitState, ttlMs: number) => MaybeOperation<void>;
+}>;
+
+// Identifies the client a request counts against; null exempts the request
+type RateLimitKey = (req: Request, context: RequestContext) => string | null;
+
+type RateLimitOptions = Readonly<{
+  windowMs: number;
+  maxRequests: number;
+  algorithm?: RateLimitAlgorithm;
+  key?: RateLimitKey;
+  store?: RateLimitStore;
+  // Requests only share a budget within the same scope
+  scope?: string;
+  now?: () => number;
+}>;
+
+// Route-level settings merged over the server's, or false to opt out
+type RouteRateLimit = Partial<RateLimitOptions> | false;
+
+type RateLimitDecision = Readonly<{
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+  retryAfterMs: number;
+  state: RateLimitState;
+}>;
+
+// Sliding window counter: the previous window's count is weighted by how much
+// of it still overlaps the sliding window, so memory stays constant per key
+const slidingWindow = (
+  state: RateLimitState | undefined,
+  now: number,
+  windowMs: number,
+  limit: number
+): RateLimitDecision => {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const previous = state?.algorithm !== 'sliding-window' || state.windowStart < windowStart - windowMs
+    ? 0
+    : state.windowStart === windowStart ? state.previous : state.current;
+  const current = state?.algorithm === 'sliding-window' && state.windowStart === windowStart
+    ? state.current
+    : 0;
+
+  const elapsed = now - windowStart;
+  const estimate = (count: number) => previous * (1 - elapsed / windowMs) + count;
+  const resetMs = windowMs - elapsed;
+
+  if (estimate(current + 1) <= limit) {
+    return {
+      allowed: true,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimate(current + 1))),
+      resetMs,
+      retryAfterMs: 0,
+      state: { algorithm: 'sliding-window', windowStart, previous, current: current + 1 }
+    };
+  }
+
+  // Time until the weighted count leaves room for one more request
+  const retryAfterMs = current + 1 <= limit
+    ? windowMs * (1 - (limit - current - 1) / previous) - elapsed
+    : resetMs + windowMs * (1 - (limit - 1) / current);
+
+  return {
+    allowed: false,
+    limit,
+    remaining: 0,
+    resetMs,
+    retryAfterMs: Math.max(0, retryAfterMs),
+    state: { algorithm: 'sliding-window', windowStart, previous, current }
+  };
+};
+
+// Token bucket: holds up to `limit` tokens, refilled evenly over the window
+const tokenBucket = (
+  state: RateLimitState | undefined,
+  now: number,
+  windowMs: number,
+  limit: number
+): RateLimitDecision => {
+  const rate = limit / windowMs;
+  const stored = state?.algorithm === 'token-bucket'
+    ? Math.min(limit, state.tokens + (now - state.updatedAt) * rate)
+    : limit;
+  const allowed = stored >= 1;
+  const tokens = allowed ? stored - 1 : stored;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.floor(tokens),
+    resetMs: (limit - tokens) / rate,
+    retryAfterMs: allowed ? 0 : (1 - tokens) / rate,
+    state: { algorithm: 'token-bucket', tokens, updatedAt: now }
+  };
+};
+
+const algorithms = {
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket
+} as const;
+
+// In-memory store holding at most 10,000 keys unless `maxKeys` says otherwise
+const createMemoryStore = (
+  options: ExpiringMapOptions = {}
+): RateLimitStore & Readonly<{ size: () => number }> => {
+  const entries = createExpiringMap<RateLimitState>({ ...options, maxKeys: options.maxKeys ?? 10_000 });
+  return { get: entries.get, set: entries.set, size: entries.size };
+};
+
+// Key functions
+const byIp: RateLimitKey = (_req, context) =>
+  `ip:${context.remoteAddr?.hostname ?? 'unknown'}`;
+
+const byApiKey = (header = 'X-API-Key', fallback: RateLimitKey | null = byIp): RateLimitKey =>
+  (req, context) => {
+    const apiKey = req.headers.get(header);
+    return apiKey ? `api-key:${apiKey}` : fallback?.(req, context) ?? null;
+  };
+
+const byUser = (
+  select: (context: RequestContext) => string | undefined,
+  fallback: RateLimitKey | null = byIp
+): RateLimitKey =>
+  (req, context) => {
+    const user = select(context);
+    return user ? `user:${user}` : fallback?.(req, context) ?? null;
+  };
+
+const toSeconds = (ms: number): string => String(Math.ceil(ms / 1000));
+
+// Standard rate limit headers, see draft-ietf-httpapi-ratelimit-headers
+const rateLimitHeaders = (decision: RateLimitDecision, windowMs: number): Headers => {
+  const headers = new Headers({
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': toSeconds(decision.resetMs),
+    'RateLimit-Policy': `${decision.limit};w=${toSeconds(windowMs)}`
+  });
+  if (!decision.allowed) {
+    headers.set('Retry-After', toSeconds(decision.retryAfterMs));
+  }
+  return headers;
+};
+
+const withRateLimitHeaders = (response: Response, headers: Headers): Response => {
+  const limited = new Response(response.body, response);
+  headers.forEach((value, name) => limited.headers.set(name, value));
+  return limited;
+};
+
+// Reject requests over the limit with a 429 TooManyRequestsError, counting the rest
+const rateLimit = (options: RateLimitOptions): Middleware => {
+  const {
+    windowMs,
+    maxRequests,
+    algorithm = 'sliding-window',
+    key = byIp,
+    store = createMemoryStore(),
+    scope = 'default',
+    now = Date.now
+  } = options;
+  const decide = algorithms[algorithm];
+  // A key whose state has expired is indistinguishable from a new one
+  const ttlMs = algorithm === 'sliding-window' ? 2 * windowMs : windowMs;
+
+  return (req, next, context): Operation<Response> => ({
+    *[Symbol.iterator]() {
+      const client = key(req, context);
+      if (client === null) return yield* next();
+
+      const storeKey = `${scope}:${client}`;
+      const state = yield* toOperation(store.get(storeKey));
+      const decision = decide(state, now(), windowMs, maxRequests);
+      yield* toOperation(store.set(storeKey, decision.state, ttlMs));
+
+      const headers = rateLimitHeaders(decision, windowMs);
+      if (!decision.allowed) throw new TooManyRequestsError(undefined, { headers });
+
+      return withRateLimitHeaders(yield* next(), headers);
+    }
+  });
+};
+
+export { byApiKey, byIp, byUser, createMemoryStore, rateLimit };
+export type {
+  RateLimitAlgorithm,
+  RateLimitKey,
+  RateLimitOptions,
+  RateLimitState,
+  RateLimitStore,
+  RouteRateLimit
+};
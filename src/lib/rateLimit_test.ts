@@ -0,0 +1,127 @@
+// rateLimit_test.ts
+import { assertEquals } from "@std/assert";
+import { run } from "@effection/effection";
+import { createRequestContext } from "./context.ts";
+import { createErrorHandler } from "./errors.ts";
+import { toOperation } from "./higherEffection.ts";
+import { applyMiddleware, type Endpoint, type Middleware } from "./middleware.ts";
+import { byApiKey, createMemoryStore, rateLimit, type RateLimitOptions } from "./rateLimit.ts";
+import { get, withRateLimit } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+const ok: Endpoint = () => toOperation(new Response("ok"));
+
+const remoteAddr: Deno.NetAddr = { transport: "tcp", hostname: "10.0.0.1", port: 1234 };
+
+// Maps the limiter's TooManyRequestsError to its problem response
+const handleError = createErrorHandler("test");
+const errorBoundary: Middleware = function* (req, next, context) {
+  try {
+    return yield* next();
+  } catch (error) {
+    return yield* handleError(error, req, context);
+  }
+};
+
+// A limited endpoint driven by a fake clock
+const limited = (options: Omit<RateLimitOptions, "now">) => {
+  const clock = { now: 0 };
+  const handler = applyMiddleware([errorBoundary, rateLimit({ ...options, now: () => clock.now })], ok);
+  const send = (headers: HeadersInit = {}) => {
+    const req = new Request("http://localhost/", { headers });
+    return run(() => handler(req, createRequestContext(req, remoteAddr)));
+  };
+  return { clock, send };
+};
+
+Deno.test("rateLimit sliding window rejects requests over the limit", async () => {
+  const { clock, send } = limited({ windowMs: 1000, maxRequests: 2 });
+
+  const first = await send();
+  assertEquals(first.status, 200);
+  assertEquals(first.headers.get("RateLimit-Limit"), "2");
+  assertEquals(first.headers.get("RateLimit-Remaining"), "1");
+  assertEquals(first.headers.get("RateLimit-Policy"), "2;w=1");
+
+  assertEquals((await send()).status, 200);
+
+  clock.now = 500;
+  const rejected = await send();
+  assertEquals(rejected.status, 429);
+  assertEquals(rejected.headers.get("Content-Type"), "application/problem+json");
+  assertEquals((await rejected.json()).title, "Too Many Requests");
+  assertEquals(rejected.headers.get("RateLimit-Remaining"), "0");
+  // Room frees up half-way into the next window, 1000ms from now
+  assertEquals(rejected.headers.get("Retry-After"), "1");
+
+  // Half of the previous window still counts: 2 * 0.5 + 1 <= 2
+  clock.now = 1500;
+  assertEquals((await send()).status, 200);
+  assertEquals((await send()).status, 429);
+});
+
+Deno.test("rateLimit token bucket refills over the window", async () => {
+  const { clock, send } = limited({ windowMs: 1000, maxRequests: 4, algorithm: "token-bucket" });
+
+  for (let i = 0; i < 4; i++) {
+    assertEquals((await send()).status, 200);
+  }
+  const rejected = await send();
+  assertEquals(rejected.status, 429);
+  assertEquals(rejected.headers.get("Retry-After"), "1");
+
+  clock.now = 500;
+  assertEquals((await send()).status, 200);
+  assertEquals((await send()).status, 200);
+  assertEquals((await send()).status, 429);
+});
+
+Deno.test("byApiKey gives each key its own budget", async () => {
+  const { send } = limited({ windowMs: 1000, maxRequests: 1, key: byApiKey() });
+
+  assertEquals((await send({ "X-API-Key": "a" })).status, 200);
+  assertEquals((await send({ "X-API-Key": "b" })).status, 200);
+  assertEquals((await send({ "X-API-Key": "a" })).status, 429);
+  // Without a key the client address is used
+  assertEquals((await send()).status, 200);
+});
+
+Deno.test("createMemoryStore evicts expired and excess keys", () => {
+  const clock = { now: 0 };
+  const store = createMemoryStore({ maxKeys: 2, sweepIntervalMs: 100, now: () => clock.now });
+  const state = { algorithm: "token-bucket", tokens: 1, updatedAt: 0 } as const;
+
+  store.set("a", state, 50);
+  store.set("b", state, 1000);
+  store.set("c", state, 1000);
+  // The oldest key made room for the newest
+  assertEquals(store.size(), 2);
+  assertEquals(store.get("a"), undefined);
+
+  // Expired keys are swept on the next access
+  clock.now = 2000;
+  assertEquals(store.get("b"), undefined);
+  assertEquals(store.size(), 0);
+});
+
+Deno.test("routes use the configured limit unless they override it", async () => {
+  const client = createTestClient([
+    get("/shared", () => new Response("shared")),
+    withRateLimit(get("/strict", () => new Response("strict")), { maxRequests: 1 }),
+    withRateLimit(get("/health", () => new Response("up")), false)
+  ], { rateLimits: { maxRequests: 2 } });
+
+  const statuses = async (path: string, count: number) => {
+    const results: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const res = await client.get(path);
+      await res.body?.cancel();
+      results.push(res.status);
+    }
+    return results;
+  };
+
+  assertEquals(await statuses("/shared", 3), [200, 200, 429]);
+  assertEquals(await statuses("/strict", 2), [200, 429]);
+  assertEquals(await statuses("/health", 3), [200, 200, 200]);
+});
@@ -0,0 +1,82 @@
+import { Operation, race, sleep, withRetry } from "./higherEffection.ts";
+import { GatewayTimeoutError, HttpError, ServiceUnavailableError } from "./errors.ts";
+
+// Retries are off unless a route opts in; running a handler twice is only
+// safe when it is idempotent
+type RetryPolicy = Readonly<{
+  // Total attempts, including the first
+  attempts: number;
+  // Delay before the first retry in milliseconds, 100 by default
+  initialDelay?: number;
+  // Multiplier applied to the delay after each retry, 2 by default
+  backoff?: number;
+  // Upper bound for a single delay, 5000 by default
+  maxDelay?: number;
+  // Fraction of each delay that is randomised, from 0 to 1; 0 by default
+  jitter?: number;
+  // Which errors are worth another attempt; by default anything but an HttpError
+  retryable?: (error: unknown) => boolean;
+  // Only retry GET, HEAD, OPTIONS, PUT and DELETE requests, true by default
+  idempotentOnly?: boolean;
+}>;
+
+// Route-level retry policy, or false to opt out of a group's
+type RouteRetry = RetryPolicy | false;
+
+// Milliseconds, or the status answered when the time is up
+type RouteTimeout = number | Readonly<{ ms: number; status?: 503 | 504 }>;
+
+const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const isRetryableError = (error: unknown): boolean => !(error instanceof HttpError);
+
+// Run a request handler under a retry policy. Each attempt but the last gets
+// a clone of the request, so the body can be read again.
+const retryRequest = (
+  req: Request,
+  policy: RouteRetry | undefined,
+  handle: (req: Request) => Operation<Response>
+): Operation<Response> => {
+  if (!policy || policy.attempts <= 1) return handle(req);
+  if ((policy.idempotentOnly ?? true) && !IDEMPOTENT_METHODS.has(req.method)) return handle(req);
+
+  let remaining = policy.attempts;
+  const attempt: Operation<Response> = {
+    *[Symbol.iterator]() {
+      remaining--;
+      return yield* handle(remaining > 0 ? req.clone() : req);
+    }
+  };
+
+  return withRetry(attempt, {
+    maxAttempts: policy.attempts,
+    initialDelay: policy.initialDelay ?? 100,
+    backoffFactor: policy.backoff ?? 2,
+    maxDelay: policy.maxDelay ?? 5000,
+    jitter: policy.jitter ?? 0,
+    shouldRetry: policy.retryable ?? isRetryableError
+  });
+};
+
+// Bound a request, halting the handler and failing with a 503 or 504 once
+// the time is up
+const timeoutRequest = (
+  operation: Operation<Response>,
+  timeout: RouteTimeout | undefined
+): Operation<Response> => {
+  if (timeout === undefined) return operation;
+
+  const { ms, status = 503 } = typeof timeout === 'number' ? { ms: timeout } : timeout;
+  const expire: Operation<never> = {
+    *[Symbol.iterator]() {
+      yield* sleep(ms);
+      const message = `Request timed out after ${ms}ms`;
+      throw status === 504 ? new GatewayTimeoutError(message) : new ServiceUnavailableError(message);
+    }
+  };
+
+  return race([operation, expire]);
+};
+
+export { IDEMPOTENT_METHODS, retryRequest, timeoutRequest };
+export type { RetryPolicy, RouteRetry, RouteTimeout };
@@ -0,0 +1,107 @@
+// retry_test.ts
+import { assertEquals } from "@std/assert";
+import { sleep } from "./higherEffection.ts";
+import { readText } from "./body.ts";
+import { ServiceUnavailableError } from "./errors.ts";
+import { get, group, post, put, withRequestTimeout, withRetryPolicy } from "./routes.ts";
+import { createTestClient } from "./testing.ts";
+
+// Fails until it has been called `failures` times
+const flaky = (failures: number) => {
+  const calls: string[] = [];
+  const handler = async (req: Request) => {
+    calls.push(await readText(req));
+    if (calls.length <= failures) throw new Error(`failure ${calls.length}`);
+    return new Response(`ok after ${calls.length}`);
+  };
+  return { calls, handler };
+};
+
+Deno.test("handlers run once unless the route has a retry policy", async () => {
+  const plain = flaky(1);
+  const retried = flaky(2);
+  const client = createTestClient([
+    get("/plain", plain.handler),
+    withRetryPolicy(get("/retried", retried.handler), { attempts: 3, initialDelay: 1 })
+  ]);
+
+  assertEquals((await client.get("/plain")).status, 500);
+  assertEquals(plain.calls.length, 1);
+
+  const response = await client.get("/retried");
+  assertEquals(await response.text(), "ok after 3");
+});
+
+Deno.test("only idempotent methods are retried unless the policy allows others", async () => {
+  const created = flaky(1);
+  const replaced = flaky(1);
+  const forced = flaky(1);
+  const policy = { attempts: 2, initialDelay: 1 };
+  const client = createTestClient([
+    withRetryPolicy(post("/items", created.handler), policy),
+    withRetryPolicy(put("/items/1", replaced.handler), policy),
+    withRetryPolicy(post("/jobs", forced.handler), { ...policy, idempotentOnly: false })
+  ]);
+
+  assertEquals((await client.post("/items", { body: "a" })).status, 500);
+  assertEquals(created.calls, ["a"]);
+
+  // Every attempt can read the body
+  assertEquals((await client.put("/items/1", { body: "b" })).status, 200);
+  assertEquals(replaced.calls, ["b", "b"]);
+
+  assertEquals((await client.post("/jobs", { body: "c" })).status, 200);
+  assertEquals(forced.calls, ["c", "c"]);
+});
+
+Deno.test("the retryable predicate decides which errors are retried", async () => {
+  let calls = 0;
+  const client = createTestClient([
+    withRetryPolicy(get("/upstream", () => {
+      calls++;
+      throw new ServiceUnavailableError();
+    }), { attempts: 3, initialDelay: 1, jitter: 1, retryable: (error) => error instanceof ServiceUnavailableError }),
+    withRetryPolicy(get("/missing", () => {
+      calls++;
+      return new Response(null, { status: 404 });
+    }), { attempts: 3 })
+  ]);
+
+  const unavailable = await client.get("/upstream");
+  assertEquals(unavailable.status, 503);
+  assertEquals((await unavailable.json()).title, "Service Unavailable");
+  assertEquals(calls, 3);
+
+  assertEquals((await client.get("/missing")).status, 404);
+  assertEquals(calls, 4);
+});
+
+Deno.test("timeouts halt the route and answer with a problem", async () => {
+  const cleanup: string[] = [];
+  const slow = (name: string) => function* () {
+    try {
+      yield* sleep(1000);
+      return new Response("late");
+    } finally {
+      cleanup.push(name);
+    }
+  };
+
+  const client = createTestClient(group("/api", [
+    get("/slow", slow("slow")),
+    withRequestTimeout(get("/gateway", slow("gateway")), { ms: 10, status: 504 }),
+    withRequestTimeout(get("/fast", () => new Response("fast")), 1000)
+  ], { timeout: 10 }));
+
+  const unavailable = await client.get("/api/slow");
+  assertEquals(unavailable.status, 503);
+  assertEquals(unavailable.headers.get("Content-Type"), "application/problem+json");
+  assertEquals((await unavailable.json()).title, "Service Unavailable");
+
+  const gateway = await client.get("/api/gateway");
+  assertEquals(gateway.status, 504);
+  assertEquals((await gateway.json()).title, "Gateway Timeout");
+
+  assertEquals(await (await client.get("/api/fast")).text(), "fast");
+  assertEquals(cleanup, ["slow", "gateway"]);
+});
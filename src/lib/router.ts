@@ -0,0 +1,336 @@
+// Path pattern compilation and matching for routes
+
+type PathPattern = string | RegExp;
+
+type Params = Readonly<Record<string, string | undefined>>;
+
+// Type-level extraction of `:name` and `*name` segments from a path pattern
+type PathSegments<P extends string> =
+  P extends `${infer Head}/${infer Tail}` ? Head | PathSegments<Tail> : P;
+
+type ParamName<Segment extends string> =
+  Segment extends `:${infer Name}` ? Name :
+  Segment extends `*${infer Name}` ? (Name extends '' ? '*' : Name) :
+  never;
+
+type PathParams<P extends PathPattern> =
+  P extends string
+    ? string extends P
+      ? Readonly<Record<string, string>>
+      : Readonly<{ [K in ParamName<PathSegments<P>>]: string }>
+    : Params;
+
+type Segment = Readonly<
+  | { type: 'static'; value: string }
+  | { type: 'param'; name: string }
+  | { type: 'wildcard'; name: string }
+>;
+
+type PathMatcher = Readonly<{
+  pattern: PathPattern;
+  segments: readonly Segment[] | null;
+  match: (path: string) => Params | null;
+}>;
+
+// Pure functions for pattern parsing
+const splitPath = (path: string): string[] =>
+  path.split('/').filter(part => part.length > 0);
+
+const parsePath = (pattern: string): readonly Segment[] => {
+  if (!pattern.startsWith('/')) {
+    throw new Error(`Route path must start with "/": ${pattern}`);
+  }
+
+  const parts = splitPath(pattern);
+  const names = new Set<string>();
+
+  return parts.map((part, index): Segment => {
+    if (part.startsWith(':') || part.startsWith('*')) {
+      const isWildcard = part.startsWith('*');
+      const name = part.slice(1) || (isWildcard ? '*' : '');
+
+      if (!name) {
+        throw new Error(`Missing parameter name in route path: ${pattern}`);
+      }
+      if (names.has(name)) {
+        throw new Error(`Duplicate parameter "${name}" in route path: ${pattern}`);
+      }
+      if (isWildcard && index !== parts.length - 1) {
+        throw new Error(`Wildcard must be the last segment in route path: ${pattern}`);
+      }
+
+      names.add(name);
+      return isWildcard ? { type: 'wildcard', name } : { type: 'param', name };
+    }
+
+    return { type: 'static', value: part };
+  });
+};
+
+const decodeSegment = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+const matchSegments = (segments: readonly Segment[], path: string): Params | null => {
+  const parts = splitPath(path);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+
+    if (segment.type === 'wildcard') {
+      const rest = decodeSegment(parts.slice(i).join('/'));
+      if (rest === null) return null;
+      params[segment.name] = rest;
+      return params;
+    }
+
+    const part = parts[i];
+    if (part === undefined) return null;
+
+    if (segment.type === 'static') {
+      if (part !== segment.value) return null;
+    } else {
+      const value = decodeSegment(part);
+      if (value === null) return null;
+      params[segment.name] = value;
+    }
+  }
+
+  return parts.length === segments.length ? params : null;
+};
+
+const matchRegExp = (pattern: RegExp, path: string): Params | null => {
+  // Clone stateful (global/sticky) patterns so matching never depends on lastIndex
+  const regexp = pattern.global || pattern.sticky
+    ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+    : pattern;
+  const result = regexp.exec(path);
+  if (!result) return null;
+
+  const positional = Object.fromEntries(
+    result.slice(1).map((value, index) => [String(index + 1), value])
+  );
+
+  return { ...positional, ...result.groups };
+};
+
+// Compile a route pattern once so requests only pay for matching
+const compilePath = (pattern: PathPattern): PathMatcher => {
+  if (typeof pattern !== 'string') {
+    return {
+      pattern,
+      segments: null,
+      match: (path) => matchRegExp(pattern, path)
+    };
+  }
+
+  const segments = parsePath(pattern);
+  return {
+    pattern,
+    segments,
+    match: (path) => matchSegments(segments, path)
+  };
+};
+
+// Trie-based router: static segments win over params, params over wildcards,
+// and RegExp routes are only consulted when no pattern route matches
+type RouteEntry<T> = Readonly<{
+  method: string;
+  path: PathPattern;
+  value: T;
+}>;
+
+type RouteMatch<T> =
+  | Readonly<{ type: 'found'; value: T; params: Params }>
+  | Readonly<{ type: 'method-not-allowed'; allowed: readonly string[] }>
+  | Readonly<{ type: 'not-found' }>;
+
+type Router<T> = Readonly<{
+  match: (method: string, path: string) => RouteMatch<T>;
+  allowedMethods: (path: string) => readonly string[];
+}>;
+
+type Leaf<T> = Readonly<{
+  value: T;
+  names: readonly string[];
+}>;
+
+type TrieNode<T> = {
+  readonly statics: Map<string, TrieNode<T>>;
+  param: TrieNode<T> | null;
+  readonly handlers: Map<string, Leaf<T>>;
+  readonly wildcards: Map<string, Leaf<T>>;
+};
+
+type RegExpEntry<T> = Readonly<{
+  method: string;
+  matcher: PathMatcher;
+  value: T;
+}>;
+
+const createNode = <T>(): TrieNode<T> => ({
+  statics: new Map(),
+  param: null,
+  handlers: new Map(),
+  wildcards: new Map()
+});
+
+const insertRoute = <T>(
+  root: TrieNode<T>,
+  method: string,
+  segments: readonly Segment[],
+  value: T
+): void => {
+  let node = root;
+  const names: string[] = [];
+
+  for (const segment of segments) {
+    if (segment.type === 'wildcard') {
+      names.push(segment.name);
+      // First registration wins, mirroring first-match semantics
+      if (!node.wildcards.has(method)) node.wildcards.set(method, { value, names });
+      return;
+    }
+
+    if (segment.type === 'static') {
+      const next = node.statics.get(segment.value) ?? createNode<T>();
+      node.statics.set(segment.value, next);
+      node = next;
+    } else {
+      names.push(segment.name);
+      node.param ??= createNode<T>();
+      node = node.param;
+    }
+  }
+
+  if (!node.handlers.has(method)) node.handlers.set(method, { value, names });
+};
+
+const toParams = (names: readonly string[], values: readonly string[]): Params =>
+  Object.fromEntries(names.map((name, index) => [name, values[index]]));
+
+// Depth-first search in priority order; `visit` returns a result to stop early
+const searchTrie = <T, R>(
+  node: TrieNode<T>,
+  parts: readonly string[],
+  index: number,
+  values: string[],
+  visit: (leaves: ReadonlyMap<string, Leaf<T>>, values: readonly string[]) => R | null
+): R | null => {
+  if (index === parts.length) {
+    const found = visit(node.handlers, values);
+    if (found !== null) return found;
+  } else {
+    const child = node.statics.get(parts[index]);
+    if (child) {
+      const found = searchTrie(child, parts, index + 1, values, visit);
+      if (found !== null) return found;
+    }
+
+    const value = node.param ? decodeSegment(parts[index]) : null;
+    if (node.param && value !== null) {
+      values.push(value);
+      const found = searchTrie(node.param, parts, index + 1, values, visit);
+      values.pop();
+      if (found !== null) return found;
+    }
+  }
+
+  if (node.wildcards.size > 0) {
+    const rest = decodeSegment(parts.slice(index).join('/'));
+    if (rest !== null) return visit(node.wildcards, [...values, rest]);
+  }
+
+  return null;
+};
+
+// Routes registered under `*` answer any method
+const ANY_METHOD = '*';
+
+const STANDARD_METHODS = ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'PATCH', 'POST', 'PUT'];
+
+// HEAD requests fall back to GET handlers, then to catch-all routes
+const candidateMethods = (method: string): readonly string[] =>
+  method === 'HEAD' ? ['HEAD', 'GET', ANY_METHOD] : [method, ANY_METHOD];
+
+const withImplicitHead = (methods: Iterable<string>): readonly string[] => {
+  const allowed = new Set(methods);
+  if (allowed.has(ANY_METHOD)) return STANDARD_METHODS;
+  if (allowed.has('GET')) allowed.add('HEAD');
+  return [...allowed].sort();
+};
+
+const createRouter = <T>(entries: readonly RouteEntry<T>[]): Router<T> => {
+  const root = createNode<T>();
+  const regExpEntries: RegExpEntry<T>[] = [];
+
+  for (const entry of entries) {
+    const method = entry.method.toUpperCase();
+    const matcher = compilePath(entry.path);
+
+    if (matcher.segments) {
+      insertRoute(root, method, matcher.segments, entry.value);
+    } else {
+      regExpEntries.push({ method, matcher, value: entry.value });
+    }
+  }
+
+  const allowedMethods = (path: string): readonly string[] => {
+    const methods = new Set<string>();
+
+    searchTrie<T, never>(root, splitPath(path), 0, [], (leaves) => {
+      leaves.forEach((_, method) => methods.add(method));
+      return null;
+    });
+
+    for (const entry of regExpEntries) {
+      if (entry.matcher.match(path)) methods.add(entry.method);
+    }
+
+    return methods.size > 0 ? withImplicitHead(methods) : [];
+  };
+
+  const match = (method: string, path: string): RouteMatch<T> => {
+    const methods = candidateMethods(method.toUpperCase());
+
+    const found = searchTrie<T, RouteMatch<T>>(root, splitPath(path), 0, [], (leaves, values) => {
+      const leaf = methods.map(m => leaves.get(m)).find(leaf => leaf !== undefined);
+      return leaf
+        ? { type: 'found', value: leaf.value, params: toParams(leaf.names, values) }
+        : null;
+    });
+    if (found) return found;
+
+    for (const m of methods) {
+      for (const entry of regExpEntries) {
+        if (entry.method !== m) continue;
+        const params = entry.matcher.match(path);
+        if (params) return { type: 'found', value: entry.value, params };
+      }
+    }
+
+    const allowed = allowedMethods(path);
+    return allowed.length > 0
+      ? { type: 'method-not-allowed', allowed }
+      : { type: 'not-found' };
+  };
+
+  return { match, allowedMethods };
+};
+
+export { ANY_METHOD, compilePath, createRouter, parsePath, splitPath };
+export type {
+  PathPattern,
+  PathParams,
+  PathMatcher,
+  Params,
+  Segment,
+  RouteEntry,
+  RouteMatch,
+  Router
+};
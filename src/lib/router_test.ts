@@ -0,0 +1,94 @@
+// router_test.ts
+import { assertEquals, assertThrows } from "@std/assert";
+import { compilePath, createRouter } from "./router.ts";
+
+Deno.test("compilePath matches static paths exactly", () => {
+  const matcher = compilePath("/api/todos");
+  assertEquals(matcher.match("/api/todos"), {});
+  assertEquals(matcher.match("/api/todos/1"), null);
+  assertEquals(matcher.match("/api"), null);
+});
+
+Deno.test("compilePath captures named params", () => {
+  const matcher = compilePath("/api/todos/:id/items/:itemId");
+  assertEquals(matcher.match("/api/todos/42/items/a%20b"), { id: "42", itemId: "a b" });
+  assertEquals(matcher.match("/api/todos/42/items"), null);
+});
+
+Deno.test("compilePath captures the rest of the path for wildcards", () => {
+  assertEquals(compilePath("/files/*rest").match("/files/css/site.css"), { rest: "css/site.css" });
+  assertEquals(compilePath("/files/*").match("/files/a/b"), { "*": "a/b" });
+  assertEquals(compilePath("/files/*rest").match("/files"), { rest: "" });
+});
+
+Deno.test("compilePath exposes RegExp captures and named groups", () => {
+  const matcher = compilePath(/^\/users\/(?<id>\d+)$/);
+  assertEquals(matcher.match("/users/7"), { "1": "7", id: "7" });
+  assertEquals(matcher.match("/users/x"), null);
+});
+
+Deno.test("compilePath rejects malformed patterns", () => {
+  assertThrows(() => compilePath("api/todos"), Error, "must start with");
+  assertThrows(() => compilePath("/a/:id/:id"), Error, "Duplicate parameter");
+  assertThrows(() => compilePath("/a/*rest/b"), Error, "last segment");
+  assertThrows(() => compilePath("/a/:"), Error, "Missing parameter name");
+});
+
+Deno.test("compilePath does not match malformed percent-encoding", () => {
+  assertEquals(compilePath("/a/:id").match("/a/%E0%A4%A"), null);
+});
+
+const entries = [
+  { method: "GET", path: "/api/todos", value: "list" },
+  { method: "POST", path: "/api/todos", value: "create" },
+  { method: "GET", path: "/api/todos/:id", value: "show" },
+  { method: "GET", path: "/api/todos/active", value: "active" },
+  { method: "DELETE", path: "/api/todos/:id", value: "delete" },
+  { method: "GET", path: "/files/*rest", value: "files" },
+  { method: "GET", path: /^\/legacy\/(?<id>\d+)$/, value: "legacy" }
+];
+
+Deno.test("createRouter prefers static segments over params and wildcards", () => {
+  const router = createRouter(entries);
+  assertEquals(router.match("GET", "/api/todos/active"), { type: "found", value: "active", params: {} });
+  assertEquals(router.match("GET", "/api/todos/42"), { type: "found", value: "show", params: { id: "42" } });
+  assertEquals(router.match("GET", "/files/a/b.txt"), { type: "found", value: "files", params: { rest: "a/b.txt" } });
+});
+
+Deno.test("createRouter backtracks to a param route registered for the method", () => {
+  const router = createRouter(entries);
+  assertEquals(router.match("DELETE", "/api/todos/active"), {
+    type: "found",
+    value: "delete",
+    params: { id: "active" }
+  });
+});
+
+Deno.test("createRouter reports 405 with the allowed methods", () => {
+  const router = createRouter(entries);
+  assertEquals(router.match("PUT", "/api/todos"), {
+    type: "method-not-allowed",
+    allowed: ["GET", "HEAD", "POST"]
+  });
+  assertEquals(router.match("GET", "/nowhere"), { type: "not-found" });
+});
+
+Deno.test("createRouter answers HEAD from GET routes", () => {
+  const router = createRouter(entries);
+  assertEquals(router.match("HEAD", "/api/todos/1"), { type: "found", value: "show", params: { id: "1" } });
+});
+
+Deno.test("createRouter falls back to RegExp routes", () => {
+  const router = createRouter(entries);
+  assertEquals(router.match("GET", "/legacy/7"), { type: "found", value: "legacy", params: { "1": "7", id: "7" } });
+  assertEquals(router.allowedMethods("/legacy/7"), ["GET", "HEAD"]);
+});
+
+Deno.test("createRouter lets catch-all routes answer any method", () => {
+  const router = createRouter([
+    { method: "GET", path: "/proxy/status", value: "status" },
+    { method: "*", path: "/proxy/*rest", value: "proxy" }
+  ]);
+  assertEquals(router.match("PATCH", "/proxy/a"), { type: "found", value: "proxy", params: { rest: "a" } });
+  assertEquals(router.match("POST", "/proxy/status"), { type: "found", value: "proxy", params: { rest: "status" } });
+});
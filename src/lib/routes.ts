@@ -0,0 +1,256 @@
+import type { MaybeOperation } from "./higherEffection.ts";
+import type { RequestContext } from "./context.ts";
+import type { RouteErrorOptions } from "./errors.ts";
+import { normalizePrefix, type Middleware } from "./middleware.ts";
+import type { RouteRateLimit } from "./rateLimit.ts";
+import type { RouteRetry, RouteTimeout } from "./retry.ts";
+import { ANY_METHOD, type PathParams, type PathPattern } from "./router.ts";
+import type { Schema } from "./schema.ts";
+import { validated, type RouteSchema, type ValidatedHandler } from "./validate.ts";
+
+// OpenAPI security requirements: scheme names mapped to required scopes
+type SecurityRequirement = Readonly<Record<string, readonly string[]>>;
+
+type ResponseDocs = Readonly<{
+  description: string;
+  body?: Schema<unknown>;
+  // Defaults to application/json
+  contentType?: string;
+}>;
+
+// Documentation used when generating the OpenAPI document
+type RouteDocs = Readonly<{
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  tags?: readonly string[];
+  // An empty list marks a public route under a secured group or document
+  security?: readonly SecurityRequirement[];
+  // Keyed by status code, or "default"
+  responses?: Readonly<Record<string, ResponseDocs>>;
+  deprecated?: boolean;
+  // Leave the route out of the document
+  hidden?: boolean;
+}>;
+
+// Handlers receive a context carrying the params captured from their route's
+// path pattern. Declared as a method so routes with specific params fit in a `Route[]`.
+type Route<P extends PathPattern = PathPattern> = Readonly<{
+  path: P;
+  method: string;
+  handler(req: Request, context: RequestContext<PathParams<P>>): MaybeOperation<Response>;
+  middleware?: readonly Middleware[];
+  rateLimit?: RouteRateLimit;
+  // Largest accepted request body in bytes, instead of `config.maxRequestSize`
+  maxRequestSize?: number;
+  // Retries are off by default
+  retry?: RouteRetry;
+  // Time allowed for the route's middleware and handler, all attempts included
+  timeout?: RouteTimeout;
+  // `false` sends responses uncompressed, e.g. for event streams
+  compress?: boolean;
+  // Inputs validated before the handler runs
+  schema?: RouteSchema;
+  docs?: RouteDocs;
+  // Error pages for this route instead of the server's `errors` option
+  errors?: RouteErrorOptions;
+}>;
+
+type RouteHandler<P extends PathPattern> = Route<P>['handler'];
+
+type GroupOptions = Readonly<{
+  middleware?: readonly Middleware[];
+  // Applied to routes that don't set their own
+  rateLimit?: RouteRateLimit;
+  maxRequestSize?: number;
+  retry?: RouteRetry;
+  timeout?: RouteTimeout;
+  compress?: boolean;
+  // Merged into each route's docs; tags are added to the route's own
+  docs?: RouteDocs;
+  // Error pages for the group; a route's own settings win
+  errors?: RouteErrorOptions;
+}>;
+
+// Infers a route's params from its path pattern
+const route = <P extends PathPattern>(definition: Route<P>): Route<P> => definition;
+
+// Builders take a handler, or a schema and a handler receiving `context.input`
+type RouteBuilder = {
+  <P extends PathPattern>(
+    path: P,
+    handler: RouteHandler<P>,
+    middleware?: readonly Middleware[]
+  ): Route<P>;
+  <P extends PathPattern, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    handler: ValidatedHandler<PathParams<P>, S>,
+    middleware?: readonly Middleware[]
+  ): Route<P>;
+};
+
+const createRouteBuilder = (method: string): RouteBuilder =>
+  <P extends PathPattern, S extends RouteSchema>(
+    path: P,
+    handlerOrSchema: RouteHandler<P> | S,
+    ...rest: [middleware?: readonly Middleware[]] | [ValidatedHandler<PathParams<P>, S>, (readonly Middleware[])?]
+  ): Route<P> => {
+    if (typeof handlerOrSchema === 'function') {
+      const [middleware = []] = rest as [(readonly Middleware[])?];
+      return { path, method, handler: handlerOrSchema, middleware };
+    }
+
+    const [handler, middleware = []] = rest as [ValidatedHandler<PathParams<P>, S>, (readonly Middleware[])?];
+    return { path, method, handler: validated(handlerOrSchema, handler), middleware, schema: handlerOrSchema };
+  };
+
+const get = createRouteBuilder('GET');
+const post = createRouteBuilder('POST');
+const put = createRouteBuilder('PUT');
+const patch = createRouteBuilder('PATCH');
+const del = createRouteBuilder('DELETE');
+const options = createRouteBuilder('OPTIONS');
+const all = createRouteBuilder(ANY_METHOD);
+
+// Wrap a route in additional middleware, outermost first
+const addMiddleware = <P extends PathPattern>(
+  route: Route<P>,
+  middleware: readonly Middleware[]
+): Route<P> => ({
+  ...route,
+  middleware: [...middleware, ...(route.middleware ?? [])]
+});
+
+// Override the server's rate limit for a route, or opt out with `false`
+const withRateLimit = <P extends PathPattern>(
+  route: Route<P>,
+  rateLimit: RouteRateLimit
+): Route<P> => ({ ...route, rateLimit });
+
+// Override the server's request body limit for a route
+const withBodyLimit = <P extends PathPattern>(
+  route: Route<P>,
+  maxRequestSize: number
+): Route<P> => ({ ...route, maxRequestSize });
+
+// Retry a route's handler on failure, or opt out of a group's policy with `false`
+const withRetryPolicy = <P extends PathPattern>(
+  route: Route<P>,
+  retry: RouteRetry
+): Route<P> => ({ ...route, retry });
+
+// Bound the time a route may take
+const withRequestTimeout = <P extends PathPattern>(
+  route: Route<P>,
+  timeout: RouteTimeout
+): Route<P> => ({ ...route, timeout });
+
+// Opt a route out of response compression with `false`
+const withCompression = <P extends PathPattern>(
+  route: Route<P>,
+  compress: boolean
+): Route<P> => ({ ...route, compress });
+
+// Override the server's error pages for a route
+const withErrorPages = <P extends PathPattern>(
+  route: Route<P>,
+  errors: RouteErrorOptions
+): Route<P> => ({ ...route, errors: mergeErrors(route.errors, errors) });
+
+const mergeErrors = (
+  base: RouteErrorOptions | undefined,
+  errors: RouteErrorOptions | undefined
+): RouteErrorOptions | undefined => {
+  if (!base || !errors) return errors ?? base;
+
+  return {
+    ...base,
+    ...errors,
+    ...(base.pages || errors.pages ? { pages: { ...base.pages, ...errors.pages } } : {})
+  };
+};
+
+// Document a route; later calls add to earlier ones
+const withDocs = <P extends PathPattern>(
+  route: Route<P>,
+  docs: RouteDocs
+): Route<P> => ({ ...route, docs: mergeDocs(route.docs, docs) });
+
+const mergeDocs = (base: RouteDocs | undefined, docs: RouteDocs | undefined): RouteDocs | undefined => {
+  if (!base || !docs) return docs ?? base;
+
+  const tags = [...new Set([...(base.tags ?? []), ...(docs.tags ?? [])])];
+  return {
+    ...base,
+    ...docs,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(base.responses || docs.responses ? { responses: { ...base.responses, ...docs.responses } } : {})
+  };
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Pure function for mounting a path pattern under a prefix
+const prefixPath = (prefix: string, path: PathPattern): PathPattern => {
+  const base = normalizePrefix(prefix);
+  if (base === '/') return path;
+
+  if (typeof path === 'string') {
+    return path === '/' ? base : `${base}${path}`;
+  }
+
+  if (!path.source.startsWith('^')) {
+    throw new Error(`RegExp routes mounted under "${base}" must be anchored with ^: ${path}`);
+  }
+  return new RegExp(`^${escapeRegExp(base)}${path.source.slice(1)}`, path.flags);
+};
+
+// Mount routes under a shared prefix with shared middleware; groups nest
+const group = (
+  prefix: string,
+  routes: readonly Route[],
+  groupOptions: GroupOptions = {}
+): Route[] =>
+  routes.map(route => ({
+    ...addMiddleware(route, groupOptions.middleware ?? []),
+    path: prefixPath(prefix, route.path),
+    rateLimit: route.rateLimit ?? groupOptions.rateLimit,
+    maxRequestSize: route.maxRequestSize ?? groupOptions.maxRequestSize,
+    retry: route.retry ?? groupOptions.retry,
+    timeout: route.timeout ?? groupOptions.timeout,
+    compress: route.compress ?? groupOptions.compress,
+    docs: mergeDocs(groupOptions.docs, route.docs),
+    errors: mergeErrors(groupOptions.errors, route.errors)
+  }));
+
+export {
+  route,
+  get,
+  post,
+  put,
+  patch,
+  del,
+  options,
+  all,
+  addMiddleware,
+  withRateLimit,
+  withBodyLimit,
+  withRetryPolicy,
+  withRequestTimeout,
+  withCompression,
+  withDocs,
+  withErrorPages,
+  group,
+  escapeRegExp
+};
+export type {
+  Route,
+  RouteBuilder,
+  RouteDocs,
+  RouteHandler,
+  ResponseDocs,
+  GroupOptions,
+  SecurityRequirement
+};
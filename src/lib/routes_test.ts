@@ -0,0 +1,37 @@
+// routes_test.ts
+import { assertEquals, assertThrows } from "@std/assert";
+import { addMiddleware, all, get, group, post, type Route } from "./routes.ts";
+import type { Middleware } from "./middleware.ts";
+
+const handler = () => new Response("ok");
+const first: Middleware = (_req, next) => next();
+const second: Middleware = (_req, next) => next();
+
+Deno.test("route builders set the method and keep middleware", () => {
+  const route = post("/todos", handler, [first]);
+  assertEquals(route.method, "POST");
+  assertEquals(route.path, "/todos");
+  assertEquals(route.middleware, [first]);
+  assertEquals(all("/any", handler).method, "*");
+});
+
+Deno.test("addMiddleware wraps existing route middleware", () => {
+  const route = addMiddleware(get("/", handler, [second]), [first]);
+  assertEquals(route.middleware, [first, second]);
+});
+
+Deno.test("group prefixes paths and nests", () => {
+  const routes: Route[] = group("/api/", [
+    get("/", handler),
+    ...group("todos", [get("/:id", handler)], { middleware: [second] })
+  ], { middleware: [first] });
+
+  assertEquals(routes.map(route => route.path), ["/api", "/api/todos/:id"]);
+  assertEquals(routes[1].middleware, [first, second]);
+});
+
+Deno.test("group prefixes anchored RegExp routes", () => {
+  const [route] = group("/api.v1", [get(/^\/items\/(\d+)$/, handler)]);
+  assertEquals(route.path, /^\/api\.v1\/items\/(\d+)$/);
+  assertThrows(() => group("/api", [get(/items/, handler)]), Error, "anchored");
+});
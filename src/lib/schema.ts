@@ -0,0 +1,263 @@
+// Composable schemas that validate and parse untrusted input. Each schema also
+// describes itself as JSON Schema, so the same definitions can document an API.
+
+import { describe, isPlainObject } from "./config.ts";
+
+type SchemaIssue = Readonly<{ path: string; message: string }>;
+
+type SchemaResult<T> =
+  | { readonly type: 'ok'; readonly value: T }
+  | { readonly type: 'error'; readonly issues: readonly SchemaIssue[] };
+
+type JsonSchema = Readonly<Record<string, unknown>>;
+
+type ParseOptions = Readonly<{
+  // Parse numbers, booleans and arrays from strings, as found in paths,
+  // query strings, headers and forms
+  coerce?: boolean;
+}>;
+
+type Schema<T> = Readonly<{
+  parse: (value: unknown, path: string, options: ParseOptions) => SchemaResult<T>;
+  jsonSchema: JsonSchema;
+  // Missing values are accepted
+  optional?: boolean;
+}>;
+
+// Documentation carried into the JSON Schema
+type Annotations = Readonly<{ description?: string; example?: unknown }>;
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Fields = Readonly<Record<string, Schema<unknown>>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// Fields whose schema accepts undefined become optional properties
+type ObjectOutput<F extends Fields> = Simplify<
+  { [K in keyof F as undefined extends Infer<F[K]> ? never : K]: Infer<F[K]> } &
+  { [K in keyof F as undefined extends Infer<F[K]> ? K : never]?: Infer<F[K]> }
+>;
+
+type ObjectSchema<F extends Fields> = Schema<ObjectOutput<F>> & Readonly<{ fields: F }>;
+
+const ok = <T>(value: T): SchemaResult<T> => ({ type: 'ok', value });
+
+const fail = (path: string, message: string): SchemaResult<never> =>
+  ({ type: 'error', issues: [{ path, message }] });
+
+const expected = (path: string, what: string, value: unknown): SchemaResult<never> =>
+  fail(path, `expected ${what}, got ${describe(value)}`);
+
+// Drop undefined keywords so the JSON Schema stays minimal
+const keywords = (schema: Readonly<Record<string, unknown>>): JsonSchema =>
+  Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+
+const formats = {
+  'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'date': /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  'uri': /^[a-z][a-z0-9+.-]*:\S+$/i
+} as const;
+
+type StringOptions = Annotations & Readonly<{
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: keyof typeof formats;
+}>;
+
+const string = (options: StringOptions = {}): Schema<string> => {
+  const { minLength, maxLength, pattern, format, ...annotations } = options;
+
+  return {
+    jsonSchema: keywords({ type: 'string', minLength, maxLength, pattern: pattern?.source, format, ...annotations }),
+    parse: (value, path) => {
+      if (typeof value !== 'string') return expected(path, 'a string', value);
+      if (minLength !== undefined && value.length < minLength) {
+        return fail(path, minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters long`);
+      }
+      if (maxLength !== undefined && value.length > maxLength) {
+        return fail(path, `must be at most ${maxLength} characters long`);
+      }
+      if (pattern && !new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '')).test(value)) {
+        return fail(path, `must match ${pattern}`);
+      }
+      if (format && !(formats[format].test(value) && (!format.startsWith('date') || !isNaN(Date.parse(value))))) {
+        return expected(path, `a valid ${format}`, value);
+      }
+      return ok(value);
+    }
+  };
+};
+
+type NumberOptions = Annotations & Readonly<{
+  minimum?: number;
+  maximum?: number;
+}>;
+
+const parseNumber = (integer: boolean, options: NumberOptions): Schema<number> => {
+  const { minimum, maximum, ...annotations } = options;
+  const kind = integer ? 'an integer' : 'a number';
+
+  return {
+    jsonSchema: keywords({ type: integer ? 'integer' : 'number', minimum, maximum, ...annotations }),
+    parse: (input, path, { coerce }) => {
+      const value = coerce && typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+      if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+        return expected(path, kind, input);
+      }
+      if (minimum !== undefined && value < minimum) return fail(path, `must be >= ${minimum}`);
+      if (maximum !== undefined && value > maximum) return fail(path, `must be <= ${maximum}`);
+      return ok(value);
+    }
+  };
+};
+
+const number = (options: NumberOptions = {}): Schema<number> => parseNumber(false, options);
+
+const integer = (options: NumberOptions = {}): Schema<number> => parseNumber(true, options);
+
+const boolean = (options: Annotations = {}): Schema<boolean> => ({
+  jsonSchema: keywords({ type: 'boolean', ...options }),
+  parse: (input, path, { coerce }) => {
+    const value = coerce && (input === 'true' || input === 'false') ? input === 'true' : input;
+    return typeof value === 'boolean' ? ok(value) : expected(path, 'a boolean', input);
+  }
+});
+
+// One of a fixed set of strings, numbers or booleans
+const oneOf = <const T extends readonly (string | number | boolean)[]>(
+  values: T,
+  options: Annotations = {}
+): Schema<T[number]> => ({
+  jsonSchema: keywords({ enum: values, ...options }),
+  parse: (value, path, { coerce }) => {
+    const match = values.find(candidate => candidate === value || (coerce && String(candidate) === value));
+    return match !== undefined
+      ? ok(match)
+      : expected(path, `one of ${values.map(describe).join(', ')}`, value);
+  }
+});
+
+type ArrayOptions = Annotations & Readonly<{
+  minItems?: number;
+  maxItems?: number;
+}>;
+
+const array = <T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> => {
+  const { minItems, maxItems, ...annotations } = options;
+
+  return {
+    jsonSchema: keywords({ type: 'array', items: item.jsonSchema, minItems, maxItems, ...annotations }),
+    parse: (input, path, parseOptions) => {
+      // A single query or form value stands for a one-item list
+      const value = parseOptions.coerce && typeof input === 'string' ? [input] : input;
+      if (!Array.isArray(value)) return expected(path, 'an array', input);
+      if (minItems !== undefined && value.length < minItems) return fail(path, `must have at least ${minItems} items`);
+      if (maxItems !== undefined && value.length > maxItems) return fail(path, `must have at most ${maxItems} items`);
+
+      const results = value.map((element, index) => item.parse(element, `${path}[${index}]`, parseOptions));
+      const issues = results.flatMap(result => result.type === 'error' ? result.issues : []);
+      return issues.length > 0
+        ? { type: 'error', issues }
+        : ok(results.map(result => (result as { value: T }).value));
+    }
+  };
+};
+
+type ObjectOptions = Annotations & Readonly<{
+  // Report unknown keys instead of dropping them
+  strict?: boolean;
+}>;
+
+const object = <F extends Fields>(fields: F, options: ObjectOptions = {}): ObjectSchema<F> => {
+  const { strict = false, ...annotations } = options;
+  const required = Object.entries(fields).filter(([, schema]) => !schema.optional).map(([key]) => key);
+
+  return {
+    fields,
+    jsonSchema: keywords({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(fields).map(([key, schema]) => [key, schema.jsonSchema])),
+      required: required.length > 0 ? required : undefined,
+      additionalProperties: strict ? false : undefined,
+      ...annotations
+    }),
+    parse: (value, path, parseOptions) => {
+      if (!isPlainObject(value)) return expected(path, 'an object', value);
+      const prefix = path ? `${path}.` : '';
+
+      const output: Record<string, unknown> = {};
+      const issues: SchemaIssue[] = [];
+      for (const [key, schema] of Object.entries(fields)) {
+        const result = schema.parse(value[key], `${prefix}${key}`, parseOptions);
+        if (result.type === 'error') {
+          issues.push(...result.issues);
+        } else if (result.value !== undefined) {
+          output[key] = result.value;
+        }
+      }
+
+      if (strict) {
+        Object.keys(value)
+          .filter(key => !(key in fields))
+          .forEach(key => issues.push({ path: `${prefix}${key}`, message: 'unknown field' }));
+      }
+
+      return issues.length > 0 ? { type: 'error', issues } : ok(output as ObjectOutput<F>);
+    }
+  };
+};
+
+// Required schemas reject a missing value; optional ones pass it through
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  ...schema,
+  optional: true,
+  parse: (value, path, options) => value === undefined ? ok(undefined) : schema.parse(value, path, options)
+});
+
+// Optional in the input, always present in the output
+const withDefault = <T>(schema: Schema<T>, defaultValue: T): Schema<T> => ({
+  ...schema,
+  optional: true,
+  jsonSchema: { ...schema.jsonSchema, default: defaultValue },
+  parse: (value, path, options) => value === undefined ? ok(defaultValue) : schema.parse(value, path, options)
+});
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  ...schema,
+  jsonSchema: schema.jsonSchema.type === undefined
+    ? { anyOf: [schema.jsonSchema, { type: 'null' }] }
+    : { ...schema.jsonSchema, type: [schema.jsonSchema.type, 'null'].flat() },
+  parse: (value, path, options) => value === null ? ok(null) : schema.parse(value, path, options)
+});
+
+// Validate a value against a schema; issue paths start at the value's root
+const parse = <T>(schema: Schema<T>, value: unknown, options: ParseOptions = {}): SchemaResult<T> =>
+  schema.parse(value, '', options);
+
+export {
+  array,
+  boolean,
+  integer,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+  withDefault
+};
+export type {
+  Fields,
+  Infer,
+  JsonSchema,
+  ObjectSchema,
+  ParseOptions,
+  Schema,
+  SchemaIssue,
+  SchemaResult
+};
@@ -0,0 +1,77 @@
+// schema_test.ts
+import { assertEquals } from "@std/assert";
+import {
+  array,
+  boolean,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+  withDefault
+} from "./schema.ts";
+
+const todo = object({
+  title: string({ minLength: 1 }),
+  done: withDefault(boolean(), false),
+  priority: optional(oneOf(["low", "high"])),
+  tags: optional(array(string(), { maxItems: 2 })),
+  due: nullable(string({ format: "date" }))
+});
+
+Deno.test("object parses known fields, applies defaults and drops the rest", () => {
+  const result = parse(todo, { title: "Write tests", due: null, extra: 1 });
+  assertEquals(result, { type: "ok", value: { title: "Write tests", done: false, due: null } });
+
+  if (result.type === "ok") {
+    // Output types follow the schema
+    const { title, done, priority }: { title: string; done: boolean; priority?: "low" | "high" } = result.value;
+    assertEquals([title, done, priority], ["Write tests", false, undefined]);
+  }
+});
+
+Deno.test("object reports every failing field with its path", () => {
+  assertEquals(parse(todo, { title: "", priority: "urgent", tags: ["a", 2], due: "tomorrow" }), {
+    type: "error",
+    issues: [
+      { path: "title", message: "must not be empty" },
+      { path: "priority", message: "expected one of \"low\", \"high\", got \"urgent\"" },
+      { path: "tags[1]", message: "expected a string, got 2" },
+      { path: "due", message: "expected a valid date, got \"tomorrow\"" }
+    ]
+  });
+  assertEquals(parse(object({ a: string() }, { strict: true }), { a: "x", b: 1 }), {
+    type: "error",
+    issues: [{ path: "b", message: "unknown field" }]
+  });
+});
+
+Deno.test("coercion parses strings from paths, queries and forms", () => {
+  const query = object({ page: integer({ minimum: 1 }), all: boolean(), ids: array(integer()) });
+
+  assertEquals(parse(query, { page: "2", all: "true", ids: "7" }, { coerce: true }), {
+    type: "ok",
+    value: { page: 2, all: true, ids: [7] }
+  });
+  assertEquals(parse(query, { page: "2", all: "true", ids: ["7"] }).type, "error");
+  assertEquals(parse(integer(), "1.5", { coerce: true }), {
+    type: "error",
+    issues: [{ path: "", message: "expected an integer, got \"1.5\"" }]
+  });
+});
+
+Deno.test("schemas describe themselves as JSON Schema", () => {
+  assertEquals(todo.jsonSchema, {
+    type: "object",
+    properties: {
+      title: { type: "string", minLength: 1 },
+      done: { type: "boolean", default: false },
+      priority: { enum: ["low", "high"] },
+      tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+      due: { type: ["string", "null"], format: "date" }
+    },
+    required: ["title", "due"]
+  });
+});
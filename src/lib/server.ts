@@ -1,163 +1,461 @@
 import {
   Operation,
+  action,
   compute,
   effect,
-  withErrorBoundary,
-  withRetry,
-  withTimeout,
-  type Result
+  race,
+  resource,
+  run as runOperation,
+  spawn,
+  suspend,
+  useScope,
+  waitForAbort,
+  toOperation
 } from "./higherEffection.ts";
-
-// Type definitions using readonly to ensure immutability
-type ServerConfig = Readonly<{
-  port: number;
-  env: string;
-  publicDir: string;
-  shutdownTimeout: number;
-  maxRequestSize: number;
-  corsOrigins: readonly string[];
-  rateLimits: {
-    readonly windowMs: number;
-    readonly maxRequests: number;
-  };
-  security: {
-    readonly csp: Readonly<Record<string, readonly string[]>>;
-    readonly hstsMaxAge: number;
-  };
+import {
+  applyMiddleware,
+  forPrefix,
+  requestLogger,
+  type Middleware,
+  type Next
+} from "./middleware.ts";
+import {
+  createRequestContext,
+  withParams,
+  type RequestContext,
+  type RequestState
+} from "./context.ts";
+import {
+  defaultConfig,
+  formatConfig,
+  loadConfig,
+  type ConfigOverrides,
+  type ServerConfig
+} from "./config.ts";
+import {
+  createRequestTracker,
+  drainRequests,
+  type RequestTracker,
+  type ShutdownHooks
+} from "./shutdown.ts";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  GatewayTimeoutError,
+  GoneError,
+  HttpError,
+  InternalServerError,
+  MethodNotAllowedError,
+  NotAcceptableError,
+  NotFoundError,
+  NotImplementedError,
+  PayloadTooLargeError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  UnauthorizedError,
+  UnprocessableEntityError,
+  UnsupportedMediaTypeError,
+  createErrorHandler,
+  problemResponse,
+  type ErrorHandler,
+  type ErrorOptions,
+  type ErrorPage,
+  type ErrorTemplate,
+  type HtmlErrors,
+  type HttpErrorOptions,
+  type Problem
+} from "./errors.ts";
+import {
+  RequestBodyError,
+  limitRequestBody,
+  readBytes,
+  readForm,
+  readJson,
+  readMultipart,
+  readText,
+  type BodyOptions,
+  type MultipartBody,
+  type MultipartOptions,
+  type UploadedFile
+} from "./body.ts";
+import { cors, type CorsOptions, type CorsOrigin } from "./cors.ts";
+import * as schema from "./schema.ts";
+import type { Infer, Schema } from "./schema.ts";
+import {
+  ValidationError,
+  validated,
+  type RequestInputs,
+  type RouteSchema,
+  type ValidatedContext,
+  type ValidationIssue
+} from "./validate.ts";
+import {
+  byApiKey,
+  byIp,
+  byUser,
+  createMemoryStore,
+  rateLimit,
+  type RateLimitKey,
+  type RateLimitOptions,
+  type RateLimitStore,
+  type RouteRateLimit
+} from "./rateLimit.ts";
+import {
+  createMemoryIdempotencyStore,
+  idempotency,
+  type IdempotencyOptions,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+  type StoredResponse
+} from "./idempotency.ts";
+import {
+  retryRequest,
+  timeoutRequest,
+  type RetryPolicy,
+  type RouteRetry,
+  type RouteTimeout
+} from "./retry.ts";
+import {
+  serveFile,
+  serveStatic,
+  type DirectoryEntry,
+  type SpaOptions,
+  type StaticOptions
+} from "./static.ts";
+import { compressResponse, type CompressionOptions } from "./compression.ts";
+import { createMimeLookup, sniffContentType, type MimeTypes } from "./mime.ts";
+import {
+  createRouter,
+  type Params,
+  type PathParams,
+  type Router
+} from "./router.ts";
+import {
+  addMiddleware,
+  all,
+  del,
+  get,
+  group,
+  options,
+  patch,
+  post,
+  put,
+  route,
+  withBodyLimit,
+  withDocs,
+  withErrorPages,
+  withRateLimit,
+  withCompression,
+  withRequestTimeout,
+  withRetryPolicy,
+  type GroupOptions,
+  type ResponseDocs,
+  type Route,
+  type RouteDocs,
+  type SecurityRequirement
+} from "./routes.ts";
+import {
+  createOpenApiDocument,
+  writeOpenApiDocument,
+  type OpenApiDocument,
+  type OpenApiOptions
+} from "./openapi.ts";
+
+// Options supplied by the application alongside its routes
+type ServerOptions = ShutdownHooks & Readonly<{
+  middleware?: readonly Middleware[];
+  // Config file and overrides layered by `startServer`, see `loadConfig`
+  configFile?: string;
+  config?: ConfigOverrides;
+  // Process signals that trigger a graceful shutdown; `startServer`
+  // defaults to SIGINT and SIGTERM, `createServer` to none
+  signals?: readonly Deno.Signal[];
+  // Programmatic shutdown trigger
+  shutdownSignal?: AbortSignal;
+  // Key function and store for the limit in `config.rateLimits`; `false`
+  // leaves only routes with their own `rateLimit` limited
+  rateLimit?: Pick<RateLimitOptions, 'key' | 'store'> | false;
+  // CORS settings; `origins` adds to `config.corsOrigins`, `false` disables CORS
+  cors?: Partial<Omit<CorsOptions, 'allowedMethods'>> | false;
+  // Generate an OpenAPI document from the routes and serve it at `openapi.path`
+  openapi?: OpenApiOptions;
+  // Custom error mapping and error pages, see `createErrorHandler`
+  errors?: ErrorOptions;
+  // Directories served when no route matches; `config.publicDir` at "/" by
+  // default, `false` for none. See `serveStatic` to serve files before routing.
+  static?: StaticOptions | readonly StaticOptions[] | false;
+  // On-the-fly compression of responses; `false` turns it off
+  compression?: CompressionOptions | false;
 }>;
 
-type Route = Readonly<{
-  path: string | RegExp;
-  method: string;
-  handler: (req: Request) => Operation<Response>;
+// The options that shape request handling, as opposed to the server lifecycle
+type RequestHandlerOptions = Pick<
+  ServerOptions,
+  'middleware' | 'rateLimit' | 'cors' | 'openapi' | 'errors' | 'static' | 'compression'
+>;
+
+// Everything a request needs, compiled once per handler
+type Pipeline = Readonly<{
+  config: ServerConfig;
+  router: Router<Route>;
+  // Serve files for requests no route matches
+  staticFiles: readonly Middleware[];
+  middleware: readonly Middleware[];
+  rateLimiterFor: (route: Route) => Middleware | null;
+  handleError: ErrorHandler;
+  compression: CompressionOptions | null;
 }>;
 
-type RequestContext = Readonly<{
-  id: string;
-  timestamp: number;
-  path: string;
-  method: string;
-  headers: Headers;
-}>;
+const staticMounts = (
+  config: ServerConfig,
+  mounts: ServerOptions['static']
+): readonly StaticOptions[] => {
+  if (mounts === false) return [];
+  const list = mounts === undefined
+    ? [{ root: config.publicDir }]
+    : Array.isArray(mounts) ? mounts : [mounts as StaticOptions];
+  // Types configured for the server apply to every mount
+  return list.map(mount => ({ ...mount, mimeTypes: { ...config.mimeTypes, ...mount.mimeTypes } }));
+};
 
-// Pure functions for configuration handling
-const validateConfig = (config: Partial<ServerConfig>): Result<ServerConfig> => {
-  const requiredFields = ['port', 'env', 'publicDir', 'shutdownTimeout'];
-  const missingFields = requiredFields.filter(field => !(field in config));
+const compileRoutes = (routes: readonly Route[]): Router<Route> =>
+  createRouter(routes.map(route => ({ method: route.method, path: route.path, value: route })));
 
-  if (missingFields.length > 0) {
-    return {
-      type: 'error',
-      error: new Error(`Missing required fields: ${missingFields.join(', ')}`)
-    };
-  }
+// The full request pipeline, independent of any listening socket
+type RequestHandler = (req: Request, remoteAddr?: Deno.NetAddr | null) => Operation<Response>;
 
-  if ((config.port ?? 0) <= 0) {
-    return {
-      type: 'error',
-      error: new Error('Invalid port configuration')
-    };
-  }
+// Compile routes into a handler running static files, routing, middleware,
+// security headers and the error boundary; never fails
+const createRequestHandler = (
+  config: ServerConfig,
+  routes: readonly Route[],
+  options: RequestHandlerOptions = {}
+): RequestHandler => {
+  const router = compileRoutes([...routes, ...openApiRoutes(routes, options.openapi)]);
+  const corsOrigins = [...config.corsOrigins, ...(options.cors ? options.cors.origins ?? [] : [])];
+
+  // CORS wraps everything else, so preflights skip application middleware
+  // and error responses, mapped just inside it, carry CORS headers too
+  const corsMiddleware = options.cors !== false && corsOrigins.length > 0
+    ? [cors({
+      ...options.cors,
+      origins: corsOrigins,
+      allowedMethods: (path) => router.allowedMethods(path)
+    })]
+    : [];
+
+  // Clients preferring HTML get "<status>.html" from the public directory
+  const handleError = createErrorHandler(config.env, {
+    ...options.errors,
+    html: options.errors?.html ?? { dir: config.publicDir }
+  });
 
-  return {
-    type: 'ok',
-    value: config as ServerConfig
+  const pipeline: Pipeline = {
+    config,
+    router,
+    staticFiles: staticMounts(config, options.static).map(serveStatic),
+    middleware: [...corsMiddleware, errorBoundary(handleError), ...(options.middleware ?? [])],
+    rateLimiterFor: createRateLimiters(config, options.rateLimit ?? {}),
+    handleError,
+    compression: options.compression === false ? null : options.compression ?? {}
   };
+
+  return (req, remoteAddr = null) => serveRequest(req, remoteAddr, pipeline);
 };
 
-// Here's the corrected createServer function that properly uses Deno.serve
-const createServer = (config: ServerConfig, routes: readonly Route[]): Operation<void> => ({
-  *[Symbol.iterator]() {
-    // Initialize MIME types as a pure computation
-    const mimeTypes = yield* compute(
-      'initialize-mime-types',
-      () => new Map([
-        ['html', 'text/html'],
-        ['css', 'text/css'],
-        ['js', 'application/javascript'],
-        ['json', 'application/json'],
-        ['png', 'image/png'],
-        ['jpg', 'image/jpeg'],
-        ['gif', 'image/gif'],
-        ['svg', 'image/svg+xml']
-      ])
-    );
+// Map errors escaping the middleware after it to responses, so the
+// middleware before it (CORS) still sees a response
+const errorBoundary = (handleError: ErrorHandler): Middleware =>
+  function* (req, next, context) {
+    try {
+      return yield* next();
+    } catch (error) {
+      return yield* handleError(error, req, context);
+    }
+  };
 
-    // Create the abort controller for shutdown handling
-    const controller = yield* compute(
-      'create-abort-controller',
-      () => new AbortController()
-    );
+// The document is generated once, from the routes the server was given
+const openApiRoutes = (routes: readonly Route[], openapi: OpenApiOptions | undefined): Route[] => {
+  if (!openapi || openapi.path === false) return [];
 
-    // Start the server as an effect
-    const server = yield* effect(
-      'start-server',
-      async () => {
-        return Deno.serve({
-          port: config.port,
-          signal: controller.signal,
-          onListen: ({ port }) => {
-            console.log(`Server running on http://localhost:${port}`);
-          },
-          handler: async (req: Request) => {
-            try {
-              // Convert the handler result into a Promise to work with Deno.serve
-              const operation = handleRequest(req, config, routes, mimeTypes);
-              return await operation[Symbol.iterator]().next().value;
-            } catch (error) {
-              console.error('Request handler error:', error);
-              return new Response('Internal Server Error', { status: 500 });
-            }
-          }
-        });
-      }
-    );
+  const document = createOpenApiDocument(routes, openapi);
+  return [withDocs(get(openapi.path ?? '/openapi.json', () => json(document)), { hidden: true })];
+};
 
-    try {
-      // Create and wait for shutdown signal
-      const shutdownSignal = yield* effect(
-        'setup-shutdown-handler',
-        () => new Promise<void>((resolve) => {
-          const signals = ['SIGINT', 'SIGTERM'];
-          const cleanup = () => {
-            signals.forEach(signal => Deno.removeSignalListener(signal, handleSignal));
-            resolve();
-          };
-
-          const handleSignal = () => {
-            console.log('\nShutdown signal received');
-            cleanup();
-          };
-
-          signals.forEach(signal => Deno.addSignalListener(signal, handleSignal));
-        })
-      );
+// One limiter per route, sharing a store; routes overriding the limit get a
+// budget of their own, the others share the server-wide one
+const createRateLimiters = (
+  config: ServerConfig,
+  options: Pick<RateLimitOptions, 'key' | 'store'> | false
+): (route: Route) => Middleware | null => {
+  const { key, store = createMemoryStore() } = options || {};
+  const defaults = { ...config.rateLimits, key, store };
+  const shared = options ? rateLimit({ ...defaults, scope: 'server' }) : null;
+  const limiters = new Map<Route, Middleware | null>();
+
+  return (route) => {
+    if (route.rateLimit === undefined) return shared;
+    if (route.rateLimit === false) return null;
+
+    if (!limiters.has(route)) {
+      limiters.set(route, rateLimit({
+        ...defaults,
+        scope: `${route.method} ${route.path}`,
+        ...route.rateLimit
+      }));
+    }
+    return limiters.get(route) ?? null;
+  };
+};
 
-      // Wait for shutdown signal
-      yield* effect(
-        'await-shutdown',
-        () => shutdownSignal
-      );
+// Handle to a running server
+type ServerHandle = Readonly<{
+  // Address actually bound, useful with `port: 0`
+  addr: Deno.NetAddr;
+  url: URL;
+  // Resolves once the server has shut down, rejects if shutdown failed
+  finished: Promise<void>;
+  // Start a graceful shutdown; resolves like `finished`
+  close: () => Promise<void>;
+}>;
 
-      // Graceful shutdown
-      yield* compute(
+// Start serving `routes` for as long as the calling scope is alive. Shutdown
+// is triggered by `close()`, `options.shutdownSignal` or one of
+// `options.signals`; leaving the scope stops the server immediately.
+const createServer = (
+  config: ServerConfig,
+  routes: readonly Route[],
+  options: ServerOptions = {}
+): Operation<ServerHandle> => resource(function* (provide) {
+  // Compile routes and middleware once at startup
+  const requestHandler = yield* compute(
+    'create-request-handler',
+    () => createRequestHandler(config, routes, options)
+  );
+
+  // Create the abort controller for shutdown handling
+  const controller = yield* compute(
+    'create-abort-controller',
+    () => new AbortController()
+  );
+
+  // Requests run as tasks under the server's scope, tracked for draining
+  const scope = yield* useScope();
+  const tracker = yield* compute(
+    'create-request-tracker',
+    () => createRequestTracker()
+  );
+
+  // Start listening; `port: 0` binds an ephemeral port
+  const server = yield* compute(
+    'start-server',
+    () => Deno.serve({
+      port: config.port,
+      signal: controller.signal,
+      onListen: ({ port }) => {
+        console.log(`Server running on http://localhost:${port}`);
+      },
+      handler: (req: Request, info: Deno.ServeHandlerInfo<Deno.NetAddr>) =>
+        tracker.track(scope.run(() => requestHandler(req, info.remoteAddr)))
+          .catch(() => new Response('Service Unavailable', { status: 503 }))
+    })
+  );
+
+  const closeRequested = Promise.withResolvers<void>();
+  const finished = Promise.withResolvers<void>();
+  // The failure is logged below; callers awaiting `finished` still see it, but
+  // one that never does shouldn't get an unhandled rejection
+  finished.promise.catch(() => {});
+  let shutdownStarted = false;
+  let closed = false;
+
+  // Wait for a shutdown trigger, then shut down gracefully
+  yield* spawn(function* () {
+    yield* race([
+      waitForShutdownSignal(options.signals ?? []),
+      options.shutdownSignal ? waitForAbort(options.shutdownSignal) : suspend(),
+      compute('await-close', () => closeRequested.promise)
+    ]);
+
+    try {
+      // Graceful shutdown: stop accepting connections, then drain in-flight requests
+      const closing = yield* compute(
         'initiate-shutdown',
         () => {
           console.log('Starting graceful shutdown...');
-          controller.abort();
-          return server.shutdown();
+          shutdownStarted = true;
+          return { finished: server.shutdown() };
         }
       );
 
+      yield* drainRequests(tracker, config.shutdownTimeout, options);
+
+      yield* compute('await-server-closed', () => closing.finished);
+      console.log('Server closed');
+      finished.resolve();
     } catch (err) {
       yield* compute(
         'handle-server-error',
         () => {
           console.error('Server error:', err);
-          controller.abort();
+          // Deno rejects an abort once shutdown has begun
+          if (!shutdownStarted) controller.abort();
         }
       );
-      throw err;
+      finished.reject(err);
+    } finally {
+      closed = true;
+    }
+  });
+
+  const handle: ServerHandle = {
+    addr: server.addr,
+    url: new URL(`http://localhost:${server.addr.port}/`),
+    finished: finished.promise,
+    close: () => {
+      closeRequested.resolve();
+      return finished.promise;
+    }
+  };
+
+  try {
+    yield* provide(handle);
+  } finally {
+    // The owning scope ended without a graceful shutdown: stop right away
+    if (!closed) {
+      controller.abort();
+      yield* compute('await-server-closed', () => server.finished);
+      finished.resolve();
+    }
+  }
+});
+
+// Resolves with the first signal received; listeners are removed however the wait ends
+const waitForShutdownSignal = (signals: readonly Deno.Signal[]): Operation<Deno.Signal> =>
+  action(function* (resolve) {
+    const listeners = signals.map(signal => [signal, () => resolve(signal)] as const);
+    listeners.forEach(([signal, listener]) => Deno.addSignalListener(signal, listener));
+
+    try {
+      yield* suspend();
+    } finally {
+      listeners.forEach(([signal, listener]) => Deno.removeSignalListener(signal, listener));
+    }
+  });
+
+// Last line of defence: a request task must never fail, or it would crash the server scope
+const serveRequest = (
+  req: Request,
+  remoteAddr: Deno.NetAddr | null,
+  pipeline: Pipeline
+): Operation<Response> => ({
+  *[Symbol.iterator]() {
+    try {
+      return yield* handleRequest(req, remoteAddr, pipeline);
+    } catch (error) {
+      console.error('Request handler error:', error);
+      return new Response('Internal Server Error', { status: 500 });
     }
   }
 });
@@ -165,115 +463,131 @@ const createServer = (config: ServerConfig, routes: readonly Route[]): Operation
 // Request handling with explicit computations and effects
 const handleRequest = (
   req: Request,
-  config: ServerConfig,
-  routes: readonly Route[],
-  mimeTypes: ReadonlyMap<string, string>
+  remoteAddr: Deno.NetAddr | null,
+  pipeline: Pipeline
 ): Operation<Response> => ({
   *[Symbol.iterator]() {
     // Parse request - pure computation
     const context = yield* compute(
       'parse-request',
-      () => ({
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        path: new URL(req.url).pathname,
-        method: req.method,
-        headers: req.headers
-      })
+      () => createRequestContext(req, remoteAddr)
     );
 
-    // Wrap the entire request handling in error boundary
-    return yield* withErrorBoundary(
-      {
-        *[Symbol.iterator]() {
-          // Try static file serving first
-          const staticResponse = yield* handleStaticFile(context.path, config, mimeTypes);
-          if (staticResponse) return staticResponse;
-
-          // Match route - pure computation
-          const route = yield* compute(
-            'match-route',
-            () => routes.find(r =>
-              r.method === context.method &&
-              (typeof r.path === 'string' ? r.path === context.path : r.path.test(context.path))
-            )
-          );
-
-          if (!route) {
-            return new Response('Not Found', { status: 404 });
-          }
-
-          // Handle the route with timeout and retries
-          const response = yield* withTimeout(
-            withRetry(
-              () => route.handler(req),
-              { maxAttempts: 3 }
-            ),
-            config.shutdownTimeout
-          );
-
-          // Add security headers - pure computation
-          return yield* compute(
-            'add-security-headers',
-            () => addSecurityHeaders(response, config)
-          );
-        }
-      },
-      (error) => ({
-        *[Symbol.iterator]() {
-          console.error(`Request ${context.id} failed:`, error);
+    // Errors escaping global middleware are mapped by the error boundary
+    // inside CORS, and those escaping CORS itself here; route errors are
+    // mapped in `routeRequest`, so global middleware sees their responses
+    const handling: Operation<Response> = {
+      *[Symbol.iterator]() {
+        try {
+          return yield* applyMiddleware(
+            pipeline.middleware,
+            (req, context) => routeRequest(req, context, pipeline)
+          )(req, context);
+        } catch (error) {
+          return yield* pipeline.handleError(error, req, context);
         }
-      })
+      }
+    };
+
+    // A client disconnect halts the pipeline, running its finally blocks
+    // and resource releases, instead of letting it work for nobody
+    const response = yield* race([handling, waitForAbort(req.signal)]);
+    if (response) {
+      // Every response gets them, preflights answered by CORS included
+      const secured = yield* compute(
+        'add-security-headers',
+        () => addSecurityHeaders(response, pipeline.config)
+      );
+
+      const { compression } = pipeline;
+      return compression && context.state.compress !== false
+        ? yield* effect('compress-response', () => compressResponse(req, secured, compression))
+        : secured;
+    }
+
+    yield* compute(
+      'log-client-cancelled',
+      () => console.warn(
+        `Request ${context.id} cancelled by client: ${context.method} ${context.path} after ${Date.now() - context.timestamp}ms`
+      )
     );
+
+    return new Response(null, { status: CLIENT_CLOSED_REQUEST });
   }
 });
 
-// Static file handling with explicit computations and effects
-const handleStaticFile = (
-  path: string,
-  config: ServerConfig,
-  mimeTypes: ReadonlyMap<string, string>
-): Operation<Response | null> => ({
+// Non-standard status (popularised by nginx) recorded for requests the client abandoned
+const CLIENT_CLOSED_REQUEST = 499;
+
+// Static files, route matching and the matched route's own middleware
+const routeRequest = (
+  req: Request,
+  context: RequestContext,
+  pipeline: Pipeline
+): Operation<Response> => ({
   *[Symbol.iterator]() {
-    // Path normalization and security check - pure computation
-    const normalizedPath = yield* compute(
-      'normalize-path',
-      () => {
-        const cleanPath = path.normalize(path).replace(/^(\.\.[\/\\])+/, '');
-        const fullPath = path.join(config.publicDir, cleanPath);
-        return { fullPath, isAllowed: fullPath.startsWith(path.resolve(config.publicDir)) };
-      }
+    const { config, router } = pipeline;
+
+    // Match route - pure computation
+    const match = yield* compute(
+      'match-route',
+      () => router.match(context.method, context.path)
     );
 
-    if (!normalizedPath.isAllowed) {
-      return null;
+    // Unmatched paths may name a static file
+    if (match.type === 'not-found') {
+      const notFound = applyMiddleware(pipeline.staticFiles, function* (req, context) {
+        return yield* pipeline.handleError(new NotFoundError(), req, context);
+      });
+
+      try {
+        return yield* notFound(req, context);
+      } catch (error) {
+        return yield* pipeline.handleError(error, req, context);
+      }
     }
 
-    try {
-      // File reading - effect
-      const file = yield* effect(
-        'read-static-file',
-        () => Deno.readFile(normalizedPath.fullPath)
-      );
+    // OPTIONS is answered for every path, from the methods registered for it
+    if (match.type === 'method-not-allowed') {
+      return context.method === 'OPTIONS'
+        ? new Response(null, {
+          status: 204,
+          headers: { 'Allow': [...new Set([...match.allowed, 'OPTIONS'])].sort().join(', ') }
+        })
+        : yield* pipeline.handleError(
+          new MethodNotAllowedError(undefined, { headers: { 'Allow': match.allowed.join(', ') } }),
+          req,
+          context
+        );
+    }
 
-      // Response creation - pure computation
-      return yield* compute(
-        'create-static-response',
-        () => {
-          const ext = path.extname(normalizedPath.fullPath).slice(1);
-          const contentType = mimeTypes.get(ext) || 'application/octet-stream';
+    const { value: route, params } = match;
+    if (route.compress === false) context.state.compress = false;
+    // The rate limit runs innermost, so keys can use state set by middleware
+    const rateLimiter = pipeline.rateLimiterFor(route);
+    // Retries, when the route opts in, repeat only the handler
+    const endpoint = applyMiddleware(
+      rateLimiter ? [...(route.middleware ?? []), rateLimiter] : route.middleware ?? [],
+      (req, context) => retryRequest(req, route.retry, req => toOperation(route.handler(req, context)))
+    );
 
-          return new Response(file, {
-            headers: { 'Content-Type': contentType }
-          });
-        }
+    const maxRequestSize = route.maxRequestSize ?? config.maxRequestSize;
+    const routeContext = withParams(context, params);
+
+    let response: Response;
+    try {
+      response = yield* timeoutRequest(
+        endpoint(limitRequestBody(req, maxRequestSize), routeContext),
+        route.timeout
       );
-    } catch (err) {
-      if (err instanceof Deno.errors.NotFound) {
-        return null;
-      }
-      throw err;
+    } catch (error) {
+      response = yield* pipeline.handleError(error, req, routeContext, route.errors);
     }
+
+    // HEAD requests answered by GET routes keep headers but drop the body
+    return req.method === 'HEAD'
+      ? new Response(null, response)
+      : response;
   }
 });
 
@@ -296,86 +610,166 @@ const addSecurityHeaders = (response: Response, config: ServerConfig): Response
 
   return newResponse;
 };
-export type Route = {
-  path: string | RegExp;
-  method: string;
-  handler: (req: Request) => Promise<Response> | Response;
-  middleware?: Middleware[];
-};
-
-export type Middleware = (
-  req: Request,
-  next: (req: Request) => Promise<Response>
-) => Promise<Response>;
 
-export const json = (data: unknown, status = 200): Response =>
+// Response helpers
+const json = (data: unknown, status = 200): Response =>
   new Response(JSON.stringify(data), {
     status,
     headers: { "Content-Type": "application/json" }
   });
 
-// Helper to compose middleware with handler
-const applyMiddleware = (
-  handler: (req: Request) => Promise<Response> | Response,
-  middleware: Middleware[] = []
-) => {
-  return async (req: Request): Promise<Response> => {
-    let index = -1;
-
-    const next = async (req: Request): Promise<Response> => {
-      index++;
-      if (index < middleware.length) {
-        return await middleware[index](req, next);
-      }
-      return await Promise.resolve(handler(req));
-    };
-
-    return next(req);
-  };
-};
-
 // Main server startup function
-const startServer = (routes: readonly Route[]): Operation<void> => ({
+const startServer = (
+  routes: readonly Route[],
+  options: ServerOptions = {}
+): Operation<void> => ({
   *[Symbol.iterator]() {
-    // Load and validate configuration
-    const config = yield* compute(
-      'load-config',
-      () => ({
-        port: parseInt(Deno.env.get("PORT") || "8000"),
-        env: Deno.env.get("DENO_ENV") || "development",
-        publicDir: Deno.env.get("PUBLIC_DIR") || "./public",
-        shutdownTimeout: parseInt(Deno.env.get("SHUTDOWN_TIMEOUT") || "5000"),
-        maxRequestSize: parseInt(Deno.env.get("MAX_REQUEST_SIZE") || "1048576"),
-        corsOrigins: Deno.env.get("CORS_ORIGINS")?.split(",") || [],
-        rateLimits: {
-          windowMs: 60000,
-          maxRequests: 100
-        },
-        security: {
-          csp: {
-            'default-src': ["'self'"],
-            'script-src': ["'self'", "'unsafe-inline'"],
-            'style-src': ["'self'", "'unsafe-inline'"]
-          },
-          hstsMaxAge: 31536000
-        }
-      })
-    );
-
-    // Validate configuration
-    const validationResult = yield* compute(
-      'validate-config',
-      () => validateConfig(config)
-    );
+    // Load and validate configuration from every layer
+    const config = yield* loadConfig({ file: options.configFile, overrides: options.config });
+    yield* compute('log-config', () => console.log(formatConfig(config)));
 
-    if (validationResult.type === 'error') {
-      throw validationResult.error;
-    }
+    // Start server with validated configuration and serve until shut down
+    const server = yield* createServer(config, routes, {
+      signals: ['SIGINT', 'SIGTERM'],
+      ...options
+    });
 
-    // Start server with validated configuration
-    yield* createServer(validationResult.value, routes);
+    yield* compute('await-shutdown', () => server.finished);
   }
 });
 
-export { startServer as run };
-export type { ServerConfig, Route };
\ No newline at end of file
+// Entry point for applications: starts the server and resolves once it has shut down
+// Awaiting the task turns it into a native promise, so an unhandled startup
+// failure such as an invalid config is reported instead of passing silently
+const run = async (routes: readonly Route[], options: ServerOptions = {}): Promise<void> => {
+  await runOperation(() => startServer(routes, options));
+};
+
+export {
+  run,
+  startServer,
+  createServer,
+  createRequestHandler,
+  defaultConfig,
+  loadConfig,
+  route,
+  get,
+  post,
+  put,
+  patch,
+  del,
+  options,
+  all,
+  group,
+  addMiddleware,
+  withRateLimit,
+  withBodyLimit,
+  withRetryPolicy,
+  withRequestTimeout,
+  withCompression,
+  withDocs,
+  withErrorPages,
+  createOpenApiDocument,
+  writeOpenApiDocument,
+  rateLimit,
+  byIp,
+  byApiKey,
+  byUser,
+  createMemoryStore,
+  serveStatic,
+  serveFile,
+  createMimeLookup,
+  sniffContentType,
+  idempotency,
+  createMemoryIdempotencyStore,
+  cors,
+  readJson,
+  readForm,
+  readMultipart,
+  readText,
+  readBytes,
+  RequestBodyError,
+  ValidationError,
+  HttpError,
+  BadRequestError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  NotAcceptableError,
+  ConflictError,
+  GoneError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  UnprocessableEntityError,
+  TooManyRequestsError,
+  InternalServerError,
+  NotImplementedError,
+  ServiceUnavailableError,
+  GatewayTimeoutError,
+  problemResponse,
+  schema,
+  validated,
+  json,
+  forPrefix,
+  requestLogger,
+  createRequestTracker,
+  drainRequests
+};
+export type {
+  ServerConfig,
+  ConfigOverrides,
+  ServerOptions,
+  ServerHandle,
+  RequestHandler,
+  RequestHandlerOptions,
+  Route,
+  RouteDocs,
+  ResponseDocs,
+  SecurityRequirement,
+  OpenApiDocument,
+  OpenApiOptions,
+  GroupOptions,
+  PathParams,
+  Params,
+  Middleware,
+  Next,
+  RequestContext,
+  RequestState,
+  RequestTracker,
+  ShutdownHooks,
+  RateLimitKey,
+  RateLimitOptions,
+  RateLimitStore,
+  RouteRateLimit,
+  RetryPolicy,
+  RouteRetry,
+  RouteTimeout,
+  StaticOptions,
+  SpaOptions,
+  DirectoryEntry,
+  MimeTypes,
+  CompressionOptions,
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+  StoredResponse,
+  CorsOptions,
+  CorsOrigin,
+  BodyOptions,
+  MultipartBody,
+  MultipartOptions,
+  UploadedFile,
+  Schema,
+  Infer,
+  RouteSchema,
+  RequestInputs,
+  ValidatedContext,
+  ValidationIssue,
+  ErrorOptions,
+  ErrorPage,
+  ErrorTemplate,
+  HtmlErrors,
+  HttpErrorOptions,
+  Problem
+};
\ No newline at end of file
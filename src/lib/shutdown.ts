@@ -0,0 +1,119 @@
+import {
+  Operation,
+  action,
+  race,
+  sleep,
+  suspend,
+  toOperation,
+  type EffectionTask,
+  type MaybeOperation
+} from "./higherEffection.ts";
+
+// Lifecycle hooks run in order during shutdown, so apps can stop producers
+// first and close shared resources once requests are gone
+type ShutdownHooks = Readonly<{
+  onShutdownStart?: (info: { readonly inFlight: number }) => MaybeOperation<void>;
+  onDrained?: () => MaybeOperation<void>;
+  onForcedClose?: (info: { readonly remaining: number }) => MaybeOperation<void>;
+}>;
+
+type RequestTracker = Readonly<{
+  track: <T>(task: EffectionTask<T>) => EffectionTask<T>;
+  inFlight: () => number;
+  drained: () => Operation<void>;
+  haltAll: () => Operation<void>;
+}>;
+
+// Tracks in-flight request tasks for graceful shutdown
+const createRequestTracker = (): RequestTracker => {
+  const tasks = new Set<EffectionTask<unknown>>();
+  const waiters = new Set<() => void>();
+
+  const release = (task: EffectionTask<unknown>) => {
+    tasks.delete(task);
+    if (tasks.size === 0) {
+      waiters.forEach(resolve => resolve());
+    }
+  };
+
+  const track = <T>(task: EffectionTask<T>): EffectionTask<T> => {
+    tasks.add(task);
+    task.then(() => release(task), () => release(task));
+    return task;
+  };
+
+  const drained = (): Operation<void> => action(function* (resolve) {
+    if (tasks.size === 0) {
+      resolve();
+      return;
+    }
+
+    waiters.add(resolve);
+    try {
+      yield* suspend();
+    } finally {
+      waiters.delete(resolve);
+    }
+  });
+
+  const haltAll = (): Operation<void> => ({
+    *[Symbol.iterator]() {
+      for (const task of [...tasks]) {
+        yield* task.halt();
+        release(task);
+      }
+    }
+  });
+
+  return { track, inFlight: () => tasks.size, drained, haltAll };
+};
+
+// Wait up to `timeoutMs` for in-flight requests, then halt the rest
+const drainRequests = (
+  tracker: RequestTracker,
+  timeoutMs: number,
+  hooks: ShutdownHooks = {}
+): Operation<void> => ({
+  *[Symbol.iterator]() {
+    const inFlight = tracker.inFlight();
+    console.log(`Draining ${inFlight} in-flight request(s), waiting up to ${timeoutMs}ms...`);
+
+    if (hooks.onShutdownStart) {
+      yield* toOperation(hooks.onShutdownStart({ inFlight }));
+    }
+
+    const drained = yield* race([
+      {
+        *[Symbol.iterator]() {
+          yield* tracker.drained();
+          return true;
+        }
+      },
+      {
+        *[Symbol.iterator]() {
+          yield* sleep(timeoutMs);
+          return false;
+        }
+      }
+    ]);
+
+    if (drained) {
+      console.log('All in-flight requests completed');
+      if (hooks.onDrained) {
+        yield* toOperation(hooks.onDrained());
+      }
+      return;
+    }
+
+    const remaining = tracker.inFlight();
+    console.warn(`Shutdown deadline of ${timeoutMs}ms reached, halting ${remaining} request(s)`);
+    yield* tracker.haltAll();
+
+    if (hooks.onForcedClose) {
+      yield* toOperation(hooks.onForcedClose({ remaining }));
+    }
+  }
+});
+
+export { createRequestTracker, drainRequests };
+export type { RequestTracker, ShutdownHooks };
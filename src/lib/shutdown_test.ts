@@ -0,0 +1,65 @@
+// shutdown_test.ts
+import { assertEquals } from "@std/assert";
+import { run, sleep, suspend, useScope } from "@effection/effection";
+import { createRequestTracker, drainRequests } from "./shutdown.ts";
+
+Deno.test("drainRequests waits for in-flight requests to finish", async () => {
+  const events: string[] = [];
+
+  await run(function* () {
+    const scope = yield* useScope();
+    const tracker = createRequestTracker();
+
+    tracker.track(scope.run(function* () {
+      yield* sleep(20);
+      events.push("request done");
+    }));
+
+    yield* drainRequests(tracker, 1000, {
+      onShutdownStart: ({ inFlight }) => { events.push(`start ${inFlight}`); },
+      onDrained: () => { events.push("drained"); },
+      onForcedClose: () => { events.push("forced"); }
+    });
+
+    assertEquals(tracker.inFlight(), 0);
+  });
+
+  assertEquals(events, ["start 1", "request done", "drained"]);
+});
+
+Deno.test("drainRequests halts requests still running at the deadline", async () => {
+  const events: string[] = [];
+
+  await run(function* () {
+    const scope = yield* useScope();
+    const tracker = createRequestTracker();
+
+    const task = tracker.track(scope.run(function* () {
+      try {
+        yield* suspend();
+      } finally {
+        events.push("request halted");
+      }
+    }));
+    task.catch(() => {});
+
+    yield* drainRequests(tracker, 10, {
+      onDrained: () => { events.push("drained"); },
+      onForcedClose: ({ remaining }) => { events.push(`forced ${remaining}`); }
+    });
+
+    assertEquals(tracker.inFlight(), 0);
+  });
+
+  assertEquals(events, ["request halted", "forced 1"]);
+});
+
+Deno.test("drainRequests returns immediately when nothing is in flight", async () => {
+  let drained = false;
+
+  await run(() => drainRequests(createRequestTracker(), 60_000, {
+    onDrained: () => { drained = true; }
+  }));
+
+  assertEquals(drained, true);
+});
@@ -0,0 +1,555 @@
+import * as path from "@std/path";
+import { Operation, compute, effect } from "./higherEffection.ts";
+import { appendHeaderToken, negotiateEncoding } from "./compression.ts";
+import { ForbiddenError, NotFoundError, prefersHtml } from "./errors.ts";
+import { SNIFF_LENGTH, createMimeLookup, sniffContentType, type MimeTypes } from "./mime.ts";
+import { isUnderPrefix, normalizePrefix, type Middleware } from "./middleware.ts";
+
+type ByteRange = Readonly<{ start: number; end: number }>;
+
+// Outcome of a Range header against a file of a given size
+type RangeRequest =
+  | Readonly<{ type: 'none' }>
+  | Readonly<{ type: 'unsatisfiable' }>
+  | Readonly<{ type: 'ranges'; ranges: readonly ByteRange[] }>;
+
+// More ranges than this are answered with the whole file
+const MAX_RANGES = 16;
+
+const CHUNK_SIZE = 64 * 1024;
+
+// Parse `bytes=0-99,200-,-50`. Malformed headers are ignored, as RFC 9110
+// allows; ranges starting past the end of the file are dropped.
+const parseRange = (header: string | null, size: number): RangeRequest => {
+  const match = header ? /^bytes=(.+)$/i.exec(header.trim()) : null;
+  if (!match) return { type: 'none' };
+
+  const specs = match[1].split(',').map(spec => spec.trim());
+  if (specs.length > MAX_RANGES) return { type: 'none' };
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return { type: 'none' };
+
+    if (parts[1] === '') {
+      // Suffix range: the last n bytes
+      const length = Number(parts[2]);
+      if (length > 0 && size > 0) ranges.push({ start: Math.max(size - length, 0), end: size - 1 });
+      continue;
+    }
+
+    const start = Number(parts[1]);
+    const end = parts[2] === '' ? Infinity : Number(parts[2]);
+    if (end < start) return { type: 'none' };
+    if (start < size) ranges.push({ start, end: Math.min(end, size - 1) });
+  }
+
+  return ranges.length > 0 ? { type: 'ranges', ranges } : { type: 'unsatisfiable' };
+};
+
+// Strong validator from size and modification time, as most servers use
+const createEtag = (info: Deno.FileInfo): string =>
+  `"${info.size.toString(16)}-${(info.mtime?.getTime() ?? 0).toString(16)}"`;
+
+const etagList = (header: string): string[] =>
+  header.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+
+const weakMatch = (header: string, etag: string): boolean =>
+  header.trim() === '*' || etagList(header).some(tag => tag.replace(/^W\//, '') === etag);
+
+// HTTP dates have second precision
+const seconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+// If-None-Match wins over If-Modified-Since, see RFC 9110 section 13.2.2
+const isNotModified = (req: Request, etag: string, mtime: Date | null): boolean => {
+  const ifNoneMatch = req.headers.get('If-None-Match');
+  if (ifNoneMatch !== null) return weakMatch(ifNoneMatch, etag);
+
+  const ifModifiedSince = req.headers.get('If-Modified-Since');
+  if (ifModifiedSince === null || !mtime) return false;
+
+  const since = Date.parse(ifModifiedSince);
+  return !Number.isNaN(since) && seconds(mtime) <= Math.floor(since / 1000);
+};
+
+// A Range only applies while the representation If-Range names is current;
+// entity tags compare strongly and dates exactly
+const rangeStillValid = (req: Request, etag: string, mtime: Date | null): boolean => {
+  const ifRange = req.headers.get('If-Range')?.trim();
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) return ifRange === etag;
+
+  const date = Date.parse(ifRange);
+  return mtime !== null && !Number.isNaN(date) && seconds(mtime) === Math.floor(date / 1000);
+};
+
+// Stream literal chunks and byte ranges of an open file, closing it when done
+// or when the client goes away
+const streamSegments = (
+  file: Deno.FsFile,
+  segments: readonly (Uint8Array | ByteRange)[]
+): ReadableStream<Uint8Array> => {
+  let index = 0;
+  let position = -1;
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        while (index < segments.length) {
+          const segment = segments[index];
+          if (segment instanceof Uint8Array) {
+            index++;
+            controller.enqueue(segment);
+            return;
+          }
+
+          if (position < 0) {
+            position = segment.start;
+            await file.seek(position, Deno.SeekMode.Start);
+          }
+          if (position > segment.end) {
+            index++;
+            position = -1;
+            continue;
+          }
+
+          const buffer = new Uint8Array(Math.min(CHUNK_SIZE, segment.end - position + 1));
+          const read = await file.read(buffer);
+          if (read === null) throw new Error('File ended before the requested range');
+          position += read;
+          controller.enqueue(buffer.subarray(0, read));
+          return;
+        }
+
+        file.close();
+        controller.close();
+      } catch (error) {
+        file.close();
+        controller.error(error);
+      }
+    },
+    cancel() {
+      file.close();
+    }
+  });
+};
+
+const encoder = new TextEncoder();
+
+// multipart/byteranges body: every part carries its own Content-Range
+const multipartSegments = (
+  ranges: readonly ByteRange[],
+  boundary: string,
+  contentType: string,
+  size: number
+): (Uint8Array | ByteRange)[] => [
+  ...ranges.flatMap((range, i) => [
+    encoder.encode(
+      `${i === 0 ? '' : '\r\n'}--${boundary}\r\n` +
+      `Content-Type: ${contentType}\r\n` +
+      `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+    ),
+    range
+  ]),
+  encoder.encode(`\r\n--${boundary}--\r\n`)
+];
+
+const segmentLength = (segment: Uint8Array | ByteRange): number =>
+  segment instanceof Uint8Array ? segment.length : segment.end - segment.start + 1;
+
+// The first bytes of an open file, for content sniffing
+const readHead = async (file: Deno.FsFile): Promise<Uint8Array> => {
+  const buffer = new Uint8Array(SNIFF_LENGTH);
+  let length = 0;
+  while (length < buffer.length) {
+    const read = await file.read(buffer.subarray(length));
+    if (read === null) break;
+    length += read;
+  }
+  return buffer.subarray(0, length);
+};
+
+const sniffFile = async (filePath: string): Promise<string> => {
+  const file = await Deno.open(filePath, { read: true });
+  try {
+    return sniffContentType(await readHead(file));
+  } finally {
+    file.close();
+  }
+};
+
+// Answer a GET or HEAD request with a file, streamed from disk. Handles
+// conditional requests (304), byte ranges (206, multipart for several ranges,
+// 416 when none fit) and HEAD. Without a content type, it is sniffed from
+// the file's first bytes. Null when the file doesn't exist or is a directory.
+const serveFile = (
+  req: Request,
+  filePath: string,
+  contentType?: string
+): Operation<Response | null> => ({
+  *[Symbol.iterator]() {
+    let file: Deno.FsFile;
+    try {
+      file = yield* effect('open-static-file', () => Deno.open(filePath, { read: true }));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound || error instanceof Deno.errors.IsADirectory) return null;
+      throw error;
+    }
+
+    // Once the body stream owns the file, it closes it
+    let streaming = false;
+    try {
+      const info = yield* effect('stat-static-file', () => file.stat());
+      if (!info.isFile) return null;
+
+      const type = contentType ??
+        sniffContentType(yield* effect('sniff-static-file', () => readHead(file)));
+
+      const response = yield* compute('create-static-response', () => {
+        const etag = createEtag(info);
+        const headers = new Headers({ 'Accept-Ranges': 'bytes', 'ETag': etag });
+        if (info.mtime) headers.set('Last-Modified', info.mtime.toUTCString());
+
+        if (isNotModified(req, etag, info.mtime)) {
+          return { status: 304, headers, segments: null };
+        }
+
+        const range = rangeStillValid(req, etag, info.mtime)
+          ? parseRange(req.headers.get('Range'), info.size)
+          : { type: 'none' as const };
+
+        if (range.type === 'unsatisfiable') {
+          headers.set('Content-Range', `bytes */${info.size}`);
+          return { status: 416, headers, segments: null };
+        }
+
+        let segments: (Uint8Array | ByteRange)[];
+        if (range.type === 'none') {
+          headers.set('Content-Type', type);
+          segments = info.size > 0 ? [{ start: 0, end: info.size - 1 }] : [];
+        } else if (range.ranges.length === 1) {
+          const [{ start, end }] = range.ranges;
+          headers.set('Content-Type', type);
+          headers.set('Content-Range', `bytes ${start}-${end}/${info.size}`);
+          segments = [range.ranges[0]];
+        } else {
+          const boundary = crypto.randomUUID();
+          headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+          segments = multipartSegments(range.ranges, boundary, type, info.size);
+        }
+
+        headers.set('Content-Length', String(segments.reduce((total, segment) => total + segmentLength(segment), 0)));
+        return { status: range.type === 'none' ? 200 : 206, headers, segments };
+      });
+
+      const { status, headers, segments } = response;
+      if (!segments || segments.length === 0 || req.method === 'HEAD') {
+        return new Response(null, { status, headers });
+      }
+
+      streaming = true;
+      return new Response(streamSegments(file, segments), { status, headers });
+    } finally {
+      if (!streaming) file.close();
+    }
+  }
+});
+
+type StaticOptions = Readonly<{
+  // Directory files are served from
+  root: string;
+  // URL prefix the directory is served under, "/" by default
+  mount?: string;
+  // Files served for a directory, "index.html" by default; `false` for none
+  index?: string | readonly string[] | false;
+  // Paths with a segment starting with ".": answered with 403 ("deny", the
+  // default), treated as missing ("ignore") or served ("allow")
+  dotfiles?: 'deny' | 'ignore' | 'allow';
+  // Pass requests for missing files on (the default) or answer them with 404
+  fallthrough?: boolean;
+  // Serve "<file>.br" or "<file>.gz" to clients accepting them, true by default
+  precompressed?: boolean;
+  // Content types added to or overriding the built-in table; files of other
+  // types are sniffed
+  mimeTypes?: MimeTypes;
+  // Redirect directories to their path with a trailing slash, true by default
+  redirect?: boolean;
+  // List directories without an index file, as HTML or JSON; off by default
+  listing?: boolean;
+  // Single-page app mode: GET requests from browsers for paths under the
+  // mount without a file extension, matching no file, get `index` (relative
+  // to the root, "index.html" by default). Paths under `exclude` ("/api" by
+  // default) are left alone.
+  spa?: boolean | SpaOptions;
+}>;
+
+type SpaOptions = Readonly<{
+  index?: string;
+  exclude?: readonly string[];
+}>;
+
+// Decoded path segments below the mount point. Null for paths that can't
+// name a file inside the root: encoded separators, NUL bytes or dot segments.
+const pathSegments = (requestPath: string, mount: string): string[] | null => {
+  if (!isUnderPrefix(requestPath, mount)) return null;
+
+  const segments: string[] = [];
+  for (const raw of requestPath.slice(mount === '/' ? 0 : mount.length).split('/')) {
+    if (raw === '') continue;
+
+    let segment: string;
+    try {
+      segment = decodeURIComponent(raw);
+    } catch {
+      return null;
+    }
+    if (segment === '.' || segment === '..' || /[/\\\0]/.test(segment)) return null;
+    segments.push(segment);
+  }
+  return segments;
+};
+
+// Compares resolved paths, so "/srv/public-secret" is not inside "/srv/public"
+const isInside = (root: string, target: string): boolean => {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative.split(/[\\/]/)[0] !== '..' && !path.isAbsolute(relative));
+};
+
+// Resolve symlinks; null unless the real path exists and stays inside the root
+const resolveInside = async (
+  root: string,
+  target: string
+): Promise<Readonly<{ path: string; info: Deno.FileInfo }> | null> => {
+  try {
+    const realRoot = await Deno.realPath(root);
+    const realTarget = await Deno.realPath(target);
+    if (!isInside(realRoot, realTarget)) return null;
+    return { path: realTarget, info: await Deno.stat(realTarget) };
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound || error instanceof Deno.errors.NotADirectory) return null;
+    throw error;
+  }
+};
+
+// What a path names inside the root: a regular file, or a directory with the
+// real path of its first index file, if any
+type Found =
+  | Readonly<{ type: 'file'; path: string }>
+  | Readonly<{ type: 'directory'; path: string; index: string | null }>;
+
+const findFile = async (
+  root: string,
+  segments: readonly string[],
+  index: readonly string[]
+): Promise<Found | null> => {
+  const found = await resolveInside(root, path.join(root, ...segments));
+  if (!found) return null;
+  if (found.info.isFile) return { type: 'file', path: found.path };
+  if (!found.info.isDirectory) return null;
+
+  for (const name of index) {
+    const candidate = await resolveInside(root, path.join(found.path, name));
+    if (candidate?.info.isFile) return { type: 'directory', path: found.path, index: candidate.path };
+  }
+  return { type: 'directory', path: found.path, index: null };
+};
+
+type DirectoryEntry = Readonly<{
+  name: string;
+  type: 'file' | 'directory';
+  // Null for directories
+  size: number | null;
+  modified: string | null;
+}>;
+
+// Entries of a directory, directories first. Entries whose real path leaves
+// the root are left out, and so are dotfiles unless they are served.
+const readDirectory = async (
+  root: string,
+  directory: string,
+  showDotfiles: boolean
+): Promise<DirectoryEntry[]> => {
+  const entries: DirectoryEntry[] = [];
+  for await (const entry of Deno.readDir(directory)) {
+    if (!showDotfiles && entry.name.startsWith('.')) continue;
+
+    const found = await resolveInside(root, path.join(directory, entry.name));
+    if (!found || !(found.info.isFile || found.info.isDirectory)) continue;
+    entries.push({
+      name: entry.name,
+      type: found.info.isDirectory ? 'directory' : 'file',
+      size: found.info.isDirectory ? null : found.info.size,
+      modified: found.info.mtime?.toISOString() ?? null
+    });
+  }
+
+  return entries.sort((a, b) =>
+    a.type !== b.type ? (a.type === 'directory' ? -1 : 1) : a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+  );
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// A plain page of relative links; `urlPath` ends with a slash
+const renderListing = (urlPath: string, entries: readonly DirectoryEntry[], isMountRoot: boolean): string => {
+  const rows = [
+    ...(isMountRoot ? [] : ['<li><a href="../">../</a></li>']),
+    ...entries.map(entry => {
+      const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+      const href = encodeURIComponent(entry.name) + (entry.type === 'directory' ? '/' : '');
+      const size = entry.type === 'file' ? ` <small>${entry.size} bytes</small>` : '';
+      return `<li><a href="${escapeHtml(href)}">${escapeHtml(name)}</a>${size}</li>`;
+    })
+  ];
+  const title = escapeHtml(`Index of ${urlPath}`);
+
+  return `<!DOCTYPE html>\n<html>\n<head><meta charset="utf-8"><title>${title}</title></head>\n` +
+    `<body>\n<h1>${title}</h1>\n<ul>\n${rows.join('\n')}\n</ul>\n</body>\n</html>\n`;
+};
+
+// HTML for browsers, JSON for everything else
+const listingResponse = (
+  req: Request,
+  urlPath: string,
+  entries: readonly DirectoryEntry[],
+  isMountRoot: boolean
+): Response => {
+  const response = prefersHtml(req)
+    ? new Response(renderListing(urlPath, entries, isMountRoot), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+    : Response.json({ path: urlPath, entries });
+  response.headers.set('Vary', 'Accept');
+  return req.method === 'HEAD' ? new Response(null, response) : response;
+};
+
+// Compressed siblings looked for next to each file, most preferred first
+const PRECOMPRESSED = [['br', '.br'], ['gzip', '.gz']] as const;
+
+type Precompressed = Readonly<{
+  // Encodings with a sibling file; responses vary on Accept-Encoding when any exist
+  available: readonly string[];
+  chosen: Readonly<{ encoding: string; path: string }> | null;
+}>;
+
+const findPrecompressed = async (
+  root: string,
+  file: string,
+  acceptEncoding: string | null
+): Promise<Precompressed> => {
+  const siblings = new Map<string, string>();
+  for (const [encoding, extension] of PRECOMPRESSED) {
+    const sibling = await resolveInside(root, file + extension);
+    if (sibling?.info.isFile) siblings.set(encoding, sibling.path);
+  }
+
+  const available = [...siblings.keys()];
+  const encoding = negotiateEncoding(acceptEncoding, available);
+  return { available, chosen: encoding ? { encoding, path: siblings.get(encoding)! } : null };
+};
+
+// Serve a directory under a URL prefix. Use it as global middleware to serve
+// files before routing, or through the server's `static` option to serve them
+// when no route matches.
+const serveStatic = (options: StaticOptions): Middleware => {
+  const {
+    root,
+    mount = '/',
+    index = 'index.html',
+    dotfiles = 'deny',
+    fallthrough = true,
+    precompressed = true,
+    mimeTypes,
+    redirect = true,
+    listing = false,
+    spa = false
+  } = options;
+  const contentTypeFor = createMimeLookup(mimeTypes);
+  const base = normalizePrefix(mount);
+  const indexFiles = index === false ? [] : typeof index === 'string' ? [index] : index;
+  const spaOptions = spa === true ? {} : spa || null;
+  const spaExclude = (spaOptions?.exclude ?? ['/api']).map(normalizePrefix);
+
+  // Whether a request missing its file should get the app's entry point
+  const isSpaRoute = (req: Request, urlPath: string, segments: readonly string[]): boolean =>
+    spaOptions !== null &&
+    path.extname(segments.at(-1) ?? '') === '' &&
+    !spaExclude.some(prefix => isUnderPrefix(urlPath, prefix)) &&
+    prefersHtml(req);
+
+  // Serve a file, or a compressed sibling of it
+  const sendFile = (req: Request, file: string): Operation<Response | null> => ({
+    *[Symbol.iterator]() {
+      const variants = precompressed
+        ? yield* effect('find-precompressed-file', () => findPrecompressed(root, file, req.headers.get('Accept-Encoding')))
+        : { available: [], chosen: null };
+      // A compressed sibling can't be sniffed, so the original file is
+      const contentType = contentTypeFor(file) ??
+        (variants.chosen ? yield* effect('sniff-static-file', () => sniffFile(file)) : undefined);
+      const response = yield* serveFile(req, variants.chosen?.path ?? file, contentType);
+      if (!response || variants.available.length === 0) return response;
+
+      return yield* compute('add-encoding-headers', () => {
+        const encoded = new Response(response.body, response);
+        appendHeaderToken(encoded.headers, 'Vary', 'Accept-Encoding');
+        if (variants.chosen) encoded.headers.set('Content-Encoding', variants.chosen.encoding);
+        return encoded;
+      });
+    }
+  });
+
+  return (req, next, context): Operation<Response> => ({
+    *[Symbol.iterator]() {
+      if (req.method !== 'GET' && req.method !== 'HEAD') return yield* next();
+
+      const segments = pathSegments(context.path, base);
+      if (!segments) return yield* next();
+
+      const missing = function* () {
+        if (fallthrough) return yield* next();
+        throw new NotFoundError();
+      };
+
+      if (dotfiles !== 'allow' && segments.some(segment => segment.startsWith('.'))) {
+        if (dotfiles === 'deny') throw new ForbiddenError();
+        return yield* missing();
+      }
+
+      const found = yield* effect('find-static-file', () => findFile(root, segments, indexFiles));
+      const directory = found?.type === 'directory' && (found.index || listing) ? found : null;
+
+      // Relative links in an index page or listing need the trailing slash.
+      // The location is rebuilt from the checked segments, never echoed back.
+      if (directory && redirect && !context.path.endsWith('/')) {
+        const location = [base === '/' ? '' : base, ...segments.map(encodeURIComponent)].join('/') + '/';
+        return new Response(null, { status: 301, headers: { 'Location': location + context.url.search } });
+      }
+
+      const file = found?.type === 'file' ? found.path : directory?.index ?? null;
+      const response = file ? yield* sendFile(req, file) : null;
+      if (response) return response;
+
+      if (directory && listing) {
+        const entries = yield* effect('read-static-directory', () => readDirectory(root, directory.path, dotfiles === 'allow'));
+        const urlPath = [base === '/' ? '' : base, ...segments].join('/') + '/';
+        return yield* compute('render-directory-listing', () => listingResponse(req, urlPath, entries, segments.length === 0));
+      }
+
+      if (isSpaRoute(req, context.path, segments)) {
+        const entry = yield* effect('find-spa-index', () => findFile(root, [spaOptions?.index ?? 'index.html'], []));
+        const fallback = entry?.type === 'file' ? yield* sendFile(req, entry.path) : null;
+        if (fallback) {
+          appendHeaderToken(fallback.headers, 'Vary', 'Accept');
+          return fallback;
+        }
+      }
+
+      return yield* missing();
+    }
+  });
+};
+
+export { parseRange, serveFile, serveStatic };
+export type { ByteRange, DirectoryEntry, RangeRequest, SpaOptions, StaticOptions };
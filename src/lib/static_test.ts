@@ -0,0 +1,313 @@
+// static_test.ts
+import { assertEquals } from "@std/assert";
+import { get } from "./routes.ts";
+import { parseRange, serveStatic } from "./static.ts";
+import { createTestClient } from "./testing.ts";
+
+// Serves a temporary public directory holding `files` for the duration of `test`
+const withPublicDir = async (
+  files: Record<string, string | Uint8Array>,
+  test: (client: ReturnType<typeof createTestClient>) => Promise<void>
+) => {
+  const publicDir = await Deno.makeTempDir();
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await (typeof content === "string"
+        ? Deno.writeTextFile(`${publicDir}/${name}`, content)
+        : Deno.writeFile(`${publicDir}/${name}`, content));
+    }
+    await test(createTestClient([], { publicDir }));
+  } finally {
+    await Deno.remove(publicDir, { recursive: true });
+  }
+};
+
+Deno.test("parseRange reads byte ranges against the file size", () => {
+  assertEquals(parseRange(null, 100), { type: "none" });
+  assertEquals(parseRange("bytes=0-9", 100), { type: "ranges", ranges: [{ start: 0, end: 9 }] });
+  assertEquals(parseRange("bytes=90-", 100), { type: "ranges", ranges: [{ start: 90, end: 99 }] });
+  assertEquals(parseRange("bytes=-10, 95-200", 100), {
+    type: "ranges",
+    ranges: [{ start: 90, end: 99 }, { start: 95, end: 99 }]
+  });
+  assertEquals(parseRange("bytes=100-", 100), { type: "unsatisfiable" });
+  assertEquals(parseRange("bytes=5-1", 100), { type: "none" });
+  assertEquals(parseRange("items=0-1", 100), { type: "none" });
+  assertEquals(parseRange("bytes=abc", 100), { type: "none" });
+});
+
+Deno.test("static files carry validators and answer conditional requests", async () => {
+  await withPublicDir({ "hello.txt": "hello world" }, async (client) => {
+    const response = await client.get("/hello.txt");
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Length"), "11");
+    assertEquals(response.headers.get("Accept-Ranges"), "bytes");
+    assertEquals(await response.text(), "hello world");
+
+    const etag = response.headers.get("ETag")!;
+    const lastModified = response.headers.get("Last-Modified")!;
+
+    const head = await client.head("/hello.txt");
+    assertEquals([head.status, head.headers.get("ETag"), head.body], [200, etag, null]);
+
+    const cached = await client.get("/hello.txt", { headers: { "If-None-Match": `"other", W/${etag}` } });
+    assertEquals([cached.status, cached.headers.get("ETag"), cached.body], [304, etag, null]);
+
+    const unchanged = await client.get("/hello.txt", { headers: { "If-Modified-Since": lastModified } });
+    assertEquals(unchanged.status, 304);
+
+    // If-None-Match takes precedence over If-Modified-Since
+    const changed = await client.get("/hello.txt", {
+      headers: { "If-None-Match": '"other"', "If-Modified-Since": lastModified }
+    });
+    assertEquals(changed.status, 200);
+    await changed.body?.cancel();
+
+    const posted = await client.post("/hello.txt");
+    assertEquals(posted.status, 404);
+    await posted.body?.cancel();
+  });
+});
+
+Deno.test("range requests get partial content", async () => {
+  // Larger than one read, so ranges cross chunk boundaries
+  const bytes = Uint8Array.from({ length: 200_000 }, (_, i) => i % 251);
+
+  await withPublicDir({ "data.bin": bytes }, async (client) => {
+    const partial = await client.get("/data.bin", { headers: { Range: "bytes=65530-131080" } });
+    assertEquals(partial.status, 206);
+    assertEquals(partial.headers.get("Content-Range"), "bytes 65530-131080/200000");
+    assertEquals(partial.headers.get("Content-Length"), "65551");
+    assertEquals(new Uint8Array(await partial.arrayBuffer()), bytes.slice(65530, 131081));
+
+    const suffix = await client.get("/data.bin", { headers: { Range: "bytes=-5" } });
+    assertEquals(new Uint8Array(await suffix.arrayBuffer()), bytes.slice(-5));
+
+    const unsatisfiable = await client.get("/data.bin", { headers: { Range: "bytes=300000-" } });
+    assertEquals(unsatisfiable.status, 416);
+    assertEquals(unsatisfiable.headers.get("Content-Range"), "bytes */200000");
+
+    const etag = partial.headers.get("ETag")!;
+    const current = await client.get("/data.bin", { headers: { Range: "bytes=0-1", "If-Range": etag } });
+    assertEquals(current.status, 206);
+    await current.body?.cancel();
+
+    const stale = await client.get("/data.bin", { headers: { Range: "bytes=0-1", "If-Range": '"stale"' } });
+    assertEquals([stale.status, stale.headers.get("Content-Length")], [200, "200000"]);
+    await stale.body?.cancel();
+  });
+});
+
+Deno.test("several ranges are sent as multipart/byteranges", async () => {
+  await withPublicDir({ "letters.css": "abcdefghijklmnopqrstuvwxyz" }, async (client) => {
+    const response = await client.get("/letters.css", { headers: { Range: "bytes=0-2, -3" } });
+    assertEquals(response.status, 206);
+
+    const boundary = response.headers.get("Content-Type")!.match(/^multipart\/byteranges; boundary=(.+)$/)![1];
+    const body = await response.text();
+    assertEquals(response.headers.get("Content-Length"), String(new TextEncoder().encode(body).length));
+    assertEquals(body, [
+      `--${boundary}`,
+      "Content-Type: text/css; charset=utf-8",
+      "Content-Range: bytes 0-2/26",
+      "",
+      "abc",
+      `--${boundary}`,
+      "Content-Type: text/css; charset=utf-8",
+      "Content-Range: bytes 23-25/26",
+      "",
+      "xyz",
+      `--${boundary}--`,
+      ""
+    ].join("\r\n"));
+  });
+});
+
+// A public directory next to a sibling sharing its name as a prefix, the case
+// a plain startsWith check lets through
+const withSiblings = async (test: (root: string) => Promise<void>) => {
+  const base = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${base}/public/docs`, { recursive: true });
+    await Deno.mkdir(`${base}/public-secret`);
+    await Deno.writeTextFile(`${base}/public/app.css`, "body {}");
+    await Deno.writeTextFile(`${base}/public/docs/index.html`, "<h1>Docs</h1>");
+    await Deno.writeTextFile(`${base}/public/.env`, "TOKEN=1");
+    await Deno.writeTextFile(`${base}/public-secret/key.txt`, "secret");
+    await Deno.symlink(`${base}/public-secret/key.txt`, `${base}/public/escape.txt`);
+    await Deno.symlink(`${base}/public-secret`, `${base}/public/escape`);
+    await Deno.symlink(`${base}/public/app.css`, `${base}/public/theme.css`);
+    await test(`${base}/public`);
+  } finally {
+    await Deno.remove(base, { recursive: true });
+  }
+};
+
+Deno.test("serveStatic never serves files outside the root", async () => {
+  await withSiblings(async (root) => {
+    const client = createTestClient([], {}, { static: { root } });
+
+    for (const attack of [
+      "/../public-secret/key.txt",
+      "/%2e%2e/public-secret/key.txt",
+      "/..%2fpublic-secret%2fkey.txt",
+      "/..%5cpublic-secret%5ckey.txt",
+      "/%2e%2e%5cpublic-secret%5ckey.txt",
+      "/app.css%00.txt",
+      "/escape.txt",
+      "/escape/key.txt",
+      "/%E0%A4%A.css"
+    ]) {
+      const response = await client.get(attack);
+      assertEquals(response.status, 404, attack);
+      await response.body?.cancel();
+    }
+
+    // Symlinks resolving inside the root are fine
+    assertEquals(await (await client.get("/theme.css")).text(), "body {}");
+  });
+});
+
+Deno.test("serveStatic mounts directories under a prefix", async () => {
+  await withSiblings(async (root) => {
+    const client = createTestClient([
+      get("/assets/generated.css", () => new Response("generated")),
+      get("/app.css", () => new Response("route"))
+    ], {}, { static: false, middleware: [serveStatic({ root, mount: "/assets/" })] });
+
+    assertEquals(await (await client.get("/assets/app.css")).text(), "body {}");
+    assertEquals(await (await client.get("/assets/docs/")).text(), "<h1>Docs</h1>");
+    assertEquals(await (await client.get("/assets/generated.css")).text(), "generated");
+    assertEquals(await (await client.get("/app.css")).text(), "route");
+
+    const sibling = await client.get("/assetsx/app.css");
+    assertEquals(sibling.status, 404);
+    await sibling.body?.cancel();
+
+    const strict = createTestClient([get("/assets/generated.css", () => new Response("generated"))], {}, {
+      static: false,
+      middleware: [serveStatic({ root, mount: "/assets", index: false, fallthrough: false })]
+    });
+    for (const missing of ["/assets/generated.css", "/assets/docs/"]) {
+      const response = await strict.get(missing);
+      assertEquals(response.status, 404, missing);
+      await response.body?.cancel();
+    }
+  });
+});
+
+Deno.test("serveStatic denies dotfiles unless allowed", async () => {
+  await withSiblings(async (root) => {
+    const denied = await createTestClient([], {}, { static: { root } }).get("/.env");
+    assertEquals(denied.status, 403);
+    await denied.body?.cancel();
+
+    const ignored = await createTestClient([], {}, { static: { root, dotfiles: "ignore" } }).get("/.env");
+    assertEquals(ignored.status, 404);
+    await ignored.body?.cancel();
+
+    const allowed = await createTestClient([], {}, { static: { root, dotfiles: "allow" } }).get("/.env");
+    assertEquals(await allowed.text(), "TOKEN=1");
+  });
+});
+
+Deno.test("static files are served after routing by default", async () => {
+  const publicDir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${publicDir}/hello.txt`, "file");
+  await Deno.writeTextFile(`${publicDir}/other.txt`, "other");
+
+  try {
+    const client = createTestClient([get("/hello.txt", () => new Response("route"))], { publicDir });
+    assertEquals(await (await client.get("/hello.txt")).text(), "route");
+
+    const other = await client.get("/other.txt");
+    assertEquals(await other.text(), "other");
+    assertEquals(other.headers.get("X-Content-Type-Options"), "nosniff");
+  } finally {
+    await Deno.remove(publicDir, { recursive: true });
+  }
+});
+
+Deno.test("directories redirect to a trailing slash and serve their index", async () => {
+  await withSiblings(async (root) => {
+    const client = createTestClient([], {}, { static: { root, mount: "/site" } });
+
+    const redirected = await client.get("/site/docs?page=2");
+    assertEquals([redirected.status, redirected.headers.get("Location")], [301, "/site/docs/?page=2"]);
+    assertEquals(await (await client.get("/site/docs/")).text(), "<h1>Docs</h1>");
+
+    // Only directories that would be served are redirected
+    const bare = await createTestClient([], {}, { static: { root, index: false } }).get("/docs");
+    assertEquals(bare.status, 404);
+    await bare.body?.cancel();
+
+    const direct = await createTestClient([], {}, { static: { root, redirect: false } }).get("/docs");
+    assertEquals(await direct.text(), "<h1>Docs</h1>");
+  });
+});
+
+Deno.test("directory listings are opt-in and negotiate HTML or JSON", async () => {
+  await withSiblings(async (root) => {
+    await Deno.writeTextFile(`${root}/docs/<b>.txt`, "bold");
+    const client = createTestClient([], {}, { static: { root, index: false, listing: true } });
+
+    const json = await client.get("/docs/", { headers: { Accept: "application/json" } });
+    assertEquals(json.headers.get("Vary"), "Accept, Accept-Encoding");
+    const listed = await json.json();
+    assertEquals(listed.path, "/docs/");
+    assertEquals(listed.entries.map((entry: { name: string; type: string; size: number | null }) =>
+      [entry.name, entry.type, entry.size]
+    ), [["<b>.txt", "file", 4], ["index.html", "file", 13]]);
+
+    // Dotfiles and symlinks leaving the root are not listed
+    const rootListing = await (await client.get("/")).json();
+    assertEquals(rootListing.entries.map((entry: { name: string }) => entry.name), [
+      "docs",
+      "app.css",
+      "theme.css"
+    ]);
+
+    const html = await client.get("/docs/", { headers: { Accept: "text/html" } });
+    assertEquals(html.headers.get("Content-Type"), "text/html; charset=utf-8");
+    const page = await html.text();
+    assertEquals(page.includes('<a href="../">../</a>'), true);
+    assertEquals(page.includes('<a href="%3Cb%3E.txt">&#60;b&#62;.txt</a>'), true);
+
+    const unlisted = await createTestClient([], {}, { static: { root, index: false } }).get("/docs/");
+    assertEquals(unlisted.status, 404);
+    await unlisted.body?.cancel();
+  });
+});
+
+Deno.test("spa mode serves the app's entry point for unknown browser paths", async () => {
+  await withSiblings(async (root) => {
+    await Deno.writeTextFile(`${root}/index.html`, "<div id=app></div>");
+    const client = createTestClient([get("/api/todos", () => Response.json([]))], {}, {
+      static: { root, spa: true }
+    });
+    const browser = { headers: { Accept: "text/html,application/xhtml+xml,*/*;q=0.8" } };
+
+    const deepLink = await client.get("/todos/42", browser);
+    assertEquals(await deepLink.text(), "<div id=app></div>");
+    assertEquals(deepLink.headers.get("Content-Type"), "text/html; charset=utf-8");
+    assertEquals(deepLink.headers.get("Vary"), "Accept");
+
+    // Files, routes, API paths, missing assets and non-browser clients are unaffected
+    assertEquals(await (await client.get("/app.css", browser)).text(), "body {}");
+    assertEquals(await (await client.get("/api/todos", browser)).json(), []);
+    for (const [path, init] of [
+      ["/api/missing", browser],
+      ["/missing.js", browser],
+      ["/todos/42", { headers: { Accept: "application/json" } }]
+    ] as const) {
+      const response = await client.get(path, init);
+      assertEquals(response.status, 404, path);
+      await response.body?.cancel();
+    }
+
+    const custom = createTestClient([], {}, {
+      static: { root, mount: "/app", spa: { index: "docs/index.html", exclude: [] } }
+    });
+    assertEquals(await (await custom.get("/app/settings", browser)).text(), "<h1>Docs</h1>");
+  });
+});
@@ -0,0 +1,141 @@
+import { run } from "./higherEffection.ts";
+import { defaultConfig, mergeConfig, validateConfig, type ConfigOverrides } from "./config.ts";
+import {
+  createRequestHandler,
+  type RequestHandlerOptions,
+  type Route
+} from "./server.ts";
+
+// Request options accepted by the test client on top of the standard ones
+type TestRequestInit = RequestInit & Readonly<{
+  // Serialised as the body with a JSON content type
+  json?: unknown;
+  // Sent in addition to the cookies stored by the client
+  cookies?: Readonly<Record<string, string>>;
+}>;
+
+type TestClientOptions = RequestHandlerOptions & Readonly<{
+  baseUrl?: string;
+  // Headers sent with every request
+  headers?: HeadersInit;
+  remoteAddr?: Deno.NetAddr | null;
+}>;
+
+type TestRequest = (path: string, init?: TestRequestInit) => Promise<Response>;
+
+type TestClient = Readonly<{
+  fetch: (input: string | URL | Request, init?: TestRequestInit) => Promise<Response>;
+  get: TestRequest;
+  head: TestRequest;
+  post: TestRequest;
+  put: TestRequest;
+  patch: TestRequest;
+  delete: TestRequest;
+  options: TestRequest;
+  // Cookie jar, updated from `Set-Cookie` response headers
+  cookies: Map<string, string>;
+}>;
+
+const defaultRemoteAddr: Deno.NetAddr = { transport: 'tcp', hostname: '127.0.0.1', port: 0 };
+
+// Apply one `Set-Cookie` header to the jar; expired cookies are removed
+const storeCookie = (cookies: Map<string, string>, header: string) => {
+  const [pair, ...attributes] = header.split(';').map(part => part.trim());
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return;
+
+  const name = pair.slice(0, separator);
+  const value = pair.slice(separator + 1);
+
+  const expired = attributes.some(attribute => {
+    const [key, ...rest] = attribute.split('=');
+    const attributeValue = rest.join('=');
+    switch (key.toLowerCase()) {
+      case 'max-age':
+        return Number(attributeValue) <= 0;
+      case 'expires':
+        return Date.parse(attributeValue) <= Date.now();
+      default:
+        return false;
+    }
+  });
+
+  if (expired) {
+    cookies.delete(name);
+  } else {
+    cookies.set(name, value);
+  }
+};
+
+const buildRequest = (
+  input: string | URL | Request,
+  init: TestRequestInit,
+  options: TestClientOptions,
+  cookies: ReadonlyMap<string, string>
+): Request => {
+  const { json, cookies: extraCookies, ...requestInit } = init;
+  const base = input instanceof Request
+    ? input
+    : new Request(new URL(input, options.baseUrl ?? 'http://localhost'));
+
+  const headers = new Headers(options.headers);
+  base.headers.forEach((value, key) => headers.set(key, value));
+  new Headers(requestInit.headers).forEach((value, key) => headers.set(key, value));
+
+  if (json !== undefined && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const jar = new Map([...cookies, ...Object.entries(extraCookies ?? {})]);
+  if (jar.size > 0 && !headers.has('Cookie')) {
+    headers.set('Cookie', [...jar].map(([name, value]) => `${name}=${value}`).join('; '));
+  }
+
+  return new Request(base, {
+    ...requestInit,
+    headers,
+    ...(json !== undefined ? { body: JSON.stringify(json) } : {})
+  });
+};
+
+// Serve requests through the same pipeline as `createServer`, without a socket.
+// Each request runs in its own Effection root, so clients can be used in parallel.
+const createTestClient = (
+  routes: readonly Route[],
+  config: ConfigOverrides = {},
+  options: TestClientOptions = {}
+): TestClient => {
+  const result = validateConfig(mergeConfig(defaultConfig, { env: 'test' }, config));
+  if (result.type === 'error') {
+    throw result.error;
+  }
+
+  const handler = createRequestHandler(result.value, routes, options);
+  const cookies = new Map<string, string>();
+  const remoteAddr = options.remoteAddr === undefined ? defaultRemoteAddr : options.remoteAddr;
+
+  const fetch = async (input: string | URL | Request, init: TestRequestInit = {}) => {
+    const req = buildRequest(input, init, options, cookies);
+    const response = await run(() => handler(req, remoteAddr));
+    response.headers.getSetCookie().forEach(header => storeCookie(cookies, header));
+    return response;
+  };
+
+  const withMethod = (method: string): TestRequest =>
+    (path, init = {}) => fetch(path, { ...init, method });
+
+  return {
+    fetch,
+    get: withMethod('GET'),
+    head: withMethod('HEAD'),
+    post: withMethod('POST'),
+    put: withMethod('PUT'),
+    patch: withMethod('PATCH'),
+    delete: withMethod('DELETE'),
+    options: withMethod('OPTIONS'),
+    cookies
+  };
+};
+
+export { createTestClient };
+export type { TestClient, TestClientOptions, TestRequestInit };
@@ -0,0 +1,69 @@
+// testing_test.ts
+import { assertEquals } from "@std/assert";
+import { get, post, type Middleware, type Route } from "./server.ts";
+import { createTestClient } from "./testing.ts";
+
+const routes: Route[] = [
+  post("/echo", async (req) =>
+    Response.json({ body: await req.json(), type: req.headers.get("Content-Type") })
+  ),
+  get("/whoami", (req, { remoteAddr }) =>
+    Response.json({ user: req.headers.get("X-User"), cookie: req.headers.get("Cookie"), ip: remoteAddr?.hostname })
+  ),
+  post("/login", () => {
+    const headers = new Headers();
+    headers.append("Set-Cookie", "session=abc; Path=/; HttpOnly");
+    headers.append("Set-Cookie", "theme=dark");
+    return new Response(null, { status: 204, headers });
+  }),
+  post("/logout", () =>
+    new Response(null, { status: 204, headers: { "Set-Cookie": "session=; Max-Age=0" } })
+  )
+];
+
+Deno.test("createTestClient sends JSON bodies", async () => {
+  const client = createTestClient(routes);
+  const res = await client.post("/echo", { json: { title: "test" } });
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), { body: { title: "test" }, type: "application/json" });
+});
+
+Deno.test("createTestClient merges default and per-request headers", async () => {
+  const client = createTestClient(routes, {}, { headers: { "X-User": "default" } });
+
+  const fallback = await client.get("/whoami");
+  assertEquals((await fallback.json()).user, "default");
+
+  const overridden = await client.get("/whoami", { headers: { "X-User": "ada" } });
+  assertEquals(await overridden.json(), { user: "ada", cookie: null, ip: "127.0.0.1" });
+});
+
+Deno.test("createTestClient keeps cookies between requests", async () => {
+  const client = createTestClient(routes);
+
+  await client.post("/login");
+  assertEquals([...client.cookies], [["session", "abc"], ["theme", "dark"]]);
+
+  const res = await client.get("/whoami", { cookies: { extra: "1" } });
+  assertEquals((await res.json()).cookie, "session=abc; theme=dark; extra=1");
+
+  await client.post("/logout");
+  assertEquals([...client.cookies], [["theme", "dark"]]);
+});
+
+Deno.test("createTestClient applies global middleware and runs requests in parallel", async () => {
+  const tag: Middleware = async (_req, next) => {
+    const response = await next();
+    response.headers.set("X-Tagged", "yes");
+    return response;
+  };
+  const client = createTestClient(routes, {}, { middleware: [tag] });
+
+  const responses = await Promise.all(
+    ["a", "b", "c"].map(user => client.get("/whoami", { headers: { "X-User": user } }))
+  );
+
+  assertEquals(responses.map(res => res.headers.get("X-Tagged")), ["yes", "yes", "yes"]);
+  assertEquals(await Promise.all(responses.map(async res => (await res.json()).user)), ["a", "b", "c"]);
+});
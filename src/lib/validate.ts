@@ -0,0 +1,152 @@
+import { Operation, toOperation, type MaybeOperation } from "./higherEffection.ts";
+import type { RequestContext } from "./context.ts";
+import { mediaType, readForm, readJson } from "./body.ts";
+import { BadRequestError } from "./errors.ts";
+import type { Params } from "./router.ts";
+import type { Fields, Infer, JsonSchema, ObjectSchema, Schema } from "./schema.ts";
+
+// What a route declares about its inputs; each part is validated before the handler runs
+type RouteSchema = Readonly<{
+  params?: ObjectSchema<Fields>;
+  query?: ObjectSchema<Fields>;
+  headers?: ObjectSchema<Fields>;
+  body?: Schema<unknown>;
+}>;
+
+type InputLocation = keyof RouteSchema;
+
+// Parsed inputs, typed from the declared schemas
+type RequestInputs<S extends RouteSchema> = Readonly<{
+  [K in keyof S]-?: Infer<NonNullable<S[K]>>;
+}>;
+
+type ValidatedContext<P extends Params, S extends RouteSchema> =
+  RequestContext<P> & Readonly<{ input: RequestInputs<S> }>;
+
+type ValidatedHandler<P extends Params, S extends RouteSchema> =
+  (req: Request, context: ValidatedContext<P, S>) => MaybeOperation<Response>;
+
+type ValidationIssue = Readonly<{
+  in: InputLocation;
+  // Dotted path to the failing value; empty for the value as a whole
+  field: string;
+  message: string;
+}>;
+
+type ValidationResult<T> =
+  | { readonly type: 'ok'; readonly value: T }
+  | { readonly type: 'error'; readonly issues: readonly ValidationIssue[] };
+
+const locations: readonly InputLocation[] = ['params', 'query', 'headers', 'body'];
+
+// Whether a schema accepts arrays, nullable and union ones included
+const acceptsArray = (schema: JsonSchema): boolean =>
+  [schema.type].flat().includes('array') ||
+  (Array.isArray(schema.anyOf) && schema.anyOf.some(acceptsArray));
+
+// Query strings may repeat keys; array fields receive every value
+const readQuery = (url: URL, schema: ObjectSchema<Fields>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(schema.fields).map(([key, field]) => {
+      const values = url.searchParams.getAll(key);
+      if (values.length === 0) return [key, undefined];
+      return [key, acceptsArray(field.jsonSchema) ? values : values.at(-1)];
+    })
+  );
+
+// Header names are case-insensitive, so only the declared ones are read
+const readHeaders = (headers: Headers, schema: ObjectSchema<Fields>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.keys(schema.fields).map(key => [key, headers.get(key) ?? undefined])
+  );
+
+const formToObject = (form: URLSearchParams): Record<string, unknown> =>
+  Object.fromEntries(
+    [...new Set(form.keys())].map(key => {
+      const values = form.getAll(key);
+      return [key, values.length === 1 ? values[0] : values];
+    })
+  );
+
+// JSON bodies keep their types; form fields are strings and get coerced
+const readBody = (req: Request): Operation<{ value: unknown; coerce: boolean }> => ({
+  *[Symbol.iterator]() {
+    if (req.body === null) return { value: undefined, coerce: false };
+
+    return mediaType(req) === 'application/x-www-form-urlencoded'
+      ? { value: formToObject(yield* readForm(req)), coerce: true }
+      : { value: yield* readJson(req), coerce: false };
+  }
+});
+
+// Validate every declared part of a request, collecting all failures
+const validateRequest = <S extends RouteSchema>(
+  req: Request,
+  context: RequestContext,
+  schema: S
+): Operation<ValidationResult<RequestInputs<S>>> => ({
+  *[Symbol.iterator]() {
+    const input: Record<string, unknown> = {};
+    const issues: ValidationIssue[] = [];
+
+    for (const location of locations) {
+      const part = schema[location];
+      if (!part) continue;
+
+      const { value, coerce } = location === 'params'
+        ? { value: context.params, coerce: true }
+        : location === 'query'
+        ? { value: readQuery(context.url, part as ObjectSchema<Fields>), coerce: true }
+        : location === 'headers'
+        ? { value: readHeaders(req.headers, part as ObjectSchema<Fields>), coerce: true }
+        : yield* readBody(req);
+
+      const result = part.parse(value, '', { coerce });
+      if (result.type === 'error') {
+        issues.push(...result.issues.map(({ path, message }) => ({ in: location, field: path, message })));
+      } else {
+        input[location] = result.value;
+      }
+    }
+
+    return issues.length > 0
+      ? { type: 'error', issues }
+      : { type: 'ok', value: input as RequestInputs<S> };
+  }
+});
+
+// Answered with a 400 problem listing every failing field in `errors`
+class ValidationError extends BadRequestError {
+  constructor(readonly issues: readonly ValidationIssue[]) {
+    super(
+      `Request validation failed for ${issues.length} field${issues.length === 1 ? '' : 's'}`,
+      { extensions: { errors: issues } }
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+// Wrap a handler so it only runs with valid, parsed inputs
+const validated = <P extends Params, S extends RouteSchema>(
+  schema: S,
+  handler: ValidatedHandler<P, S>
+) => (req: Request, context: RequestContext<P>): Operation<Response> => ({
+  *[Symbol.iterator]() {
+    const result = yield* validateRequest(req, context, schema);
+    if (result.type === 'error') {
+      throw new ValidationError(result.issues);
+    }
+    return yield* toOperation(handler(req, { ...context, input: result.value }));
+  }
+});
+
+export { ValidationError, validateRequest, validated };
+export type {
+  InputLocation,
+  RequestInputs,
+  RouteSchema,
+  ValidatedContext,
+  ValidatedHandler,
+  ValidationIssue,
+  ValidationResult
+};
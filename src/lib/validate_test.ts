@@ -0,0 +1,68 @@
+// validate_test.ts
+import { assertEquals } from "@std/assert";
+import { get, post } from "./routes.ts";
+import { array, integer, nullable, object, optional, string } from "./schema.ts";
+import { createTestClient } from "./testing.ts";
+
+const client = createTestClient([
+  get("/lists/:listId/items", {
+    params: object({ listId: integer({ minimum: 1 }) }),
+    query: object({ limit: optional(integer({ maximum: 50 })), tag: optional(array(string())) }),
+    headers: object({ "x-tenant": string() })
+  }, (_req, { input }) => {
+    const listId: number = input.params.listId;
+    return Response.json({ listId, limit: input.query.limit, tags: input.query.tag, tenant: input.headers["x-tenant"] });
+  }),
+  get("/items", { query: object({ ids: optional(nullable(array(integer()))) }) }, (_req, { input }) =>
+    Response.json(input.query)
+  ),
+  post("/items", { body: object({ title: string({ minLength: 1 }), quantity: integer() }) }, (_req, { input }) =>
+    Response.json(input.body, { status: 201 })
+  )
+]);
+
+Deno.test("validated routes receive parsed inputs", async () => {
+  const response = await client.get("/lists/3/items?limit=10&tag=a&tag=b", { headers: { "X-Tenant": "acme" } });
+  assertEquals(await response.json(), { listId: 3, limit: 10, tags: ["a", "b"], tenant: "acme" });
+
+  // Repeated keys also reach arrays wrapped in nullable and optional
+  const repeated = await client.get("/items?ids=1&ids=2");
+  assertEquals(await repeated.json(), { ids: [1, 2] });
+
+  const form = await client.post("/items", {
+    body: new URLSearchParams({ title: "Milk", quantity: "2" })
+  });
+  assertEquals(form.status, 201);
+  assertEquals(await form.json(), { title: "Milk", quantity: 2 });
+});
+
+Deno.test("validation failures list every field in a 400 problem", async () => {
+  const response = await client.get("/lists/0/items?limit=ten");
+  assertEquals(response.status, 400);
+  assertEquals(response.headers.get("Content-Type"), "application/problem+json");
+  const { requestId, ...problem } = await response.json();
+  assertEquals(typeof requestId, "string");
+  assertEquals(problem, {
+    type: "about:blank",
+    title: "Bad Request",
+    status: 400,
+    detail: "Request validation failed for 3 fields",
+    instance: "/lists/0/items",
+    errors: [
+      { in: "params", field: "listId", message: "must be >= 1" },
+      { in: "query", field: "limit", message: "expected an integer, got \"ten\"" },
+      { in: "headers", field: "x-tenant", message: "expected a string, got nothing" }
+    ]
+  });
+
+  const body = await client.post("/items", { json: { title: "", quantity: "2" } });
+  assertEquals((await body.json()).errors, [
+    { in: "body", field: "title", message: "must not be empty" },
+    { in: "body", field: "quantity", message: "expected an integer, got \"2\"" }
+  ]);
+
+  const missing = await client.post("/items");
+  assertEquals((await missing.json()).errors, [
+    { in: "body", field: "", message: "expected an object, got nothing" }
+  ]);
+});